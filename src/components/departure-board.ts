@@ -0,0 +1,165 @@
+// Import Calcite components
+import '@esri/calcite-components/dist/components/calcite-panel';
+import '@esri/calcite-components/dist/components/calcite-list';
+import '@esri/calcite-components/dist/components/calcite-list-item';
+
+import { escapeHtml, formatDelayMinutes, formatTime, isHexColor } from './html';
+
+import type { Disposer } from '../services/event-emitter';
+import type { GeopsApiService } from '../services/geops-api';
+import type { Departure } from '../types/geops';
+
+type DepartureSelectCallback = (_departure: Departure) => void;
+type CloseCallback = () => void;
+
+// Departure board configuration
+const BOARD_CONFIG = {
+  MAX_DEPARTURES: 12,
+  // Re-render periodically so departed trains drop off even without new messages
+  REFRESH_INTERVAL: 15000,
+};
+
+// Live departure board of the station picked in the search panel
+export class DepartureBoard {
+  private container: HTMLElement;
+  private apiService: GeopsApiService;
+  private departures: Departure[] = [];
+  private selectedId: string | null = null;
+  private onSelectCallback: DepartureSelectCallback | null = null;
+  private onCloseCallback: CloseCallback | null = null;
+  private disposeListener: Disposer;
+  private intervalId: number | null = null;
+
+  constructor(containerId: string, apiService: GeopsApiService) {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container element #${containerId} not found`);
+    }
+    this.container = container;
+    this.apiService = apiService;
+
+    this.disposeListener = this.apiService.on('departures', (departures) => {
+      this.departures = departures;
+      this.renderDepartures();
+    });
+
+    this.render();
+    this.hide();
+  }
+
+  // Show the board for a station (UIC number) and subscribe to its timetable
+  show(stationId: string, stationName: string) {
+    this.selectedId = null;
+    this.departures = [];
+    this.apiService.selectStation(stationId);
+
+    this.container.style.display = 'block';
+    const panelEl = this.container.querySelector('calcite-panel');
+    panelEl?.setAttribute('heading', stationName);
+    // The close button leaves the panel closed; reopen it
+    panelEl?.removeAttribute('closed');
+    this.renderDepartures();
+
+    if (!this.intervalId) {
+      this.intervalId = window.setInterval(() => this.renderDepartures(), BOARD_CONFIG.REFRESH_INTERVAL);
+    }
+  }
+
+  hide() {
+    this.container.style.display = 'none';
+    this.apiService.selectStation(null);
+    this.selectedId = null;
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  private render() {
+    this.container.innerHTML = `
+      <div class="departure-board">
+        <calcite-panel heading="Departures" description="Next departures" closable scale="s">
+          <calcite-list id="departure-list" label="Departures"></calcite-list>
+        </calcite-panel>
+      </div>
+    `;
+
+    this.container.querySelector('calcite-panel')?.addEventListener('calcitePanelClose', () => {
+      this.hide();
+      if (this.onCloseCallback) {
+        this.onCloseCallback();
+      }
+    });
+  }
+
+  private renderDepartures() {
+    const listEl = this.container.querySelector('#departure-list');
+    if (!listEl) return;
+
+    // Departed trains stay on the service's board for a grace period; hide them here
+    const now = this.apiService.getClock().now();
+    const upcoming = this.departures.filter((departure) => departure.time >= now).slice(0, BOARD_CONFIG.MAX_DEPARTURES);
+
+    if (upcoming.length === 0) {
+      listEl.innerHTML = `<calcite-list-item label="No departures" non-interactive></calcite-list-item>`;
+      return;
+    }
+
+    listEl.innerHTML = upcoming
+      .map((departure) => {
+        const line = escapeHtml(departure.lineName || '?');
+        const destination = escapeHtml(departure.destination || '');
+        const details = [departure.platform ? `Pl. ${escapeHtml(departure.platform)}` : '', this.formatDelay(departure)]
+          .filter(Boolean)
+          .join(' · ');
+        const color = isHexColor(departure.lineColor) ? departure.lineColor : '#6b7280';
+
+        return `
+        <calcite-list-item
+          label="${destination}"
+          description="${details}"
+          data-id="${escapeHtml(departure.id)}"
+          ${departure.id === this.selectedId ? 'selected' : ''}
+          ${departure.cancelled ? 'class="departure-cancelled"' : ''}
+        >
+          <span slot="content-start" class="departure-line" style="background: ${color}">${line}</span>
+          <span slot="content-end" class="departure-time">${formatTime(departure.time)}</span>
+        </calcite-list-item>
+      `;
+      })
+      .join('');
+
+    listEl.querySelectorAll('calcite-list-item').forEach((item) => {
+      item.addEventListener('click', () => {
+        const departure = this.departures.find((candidate) => candidate.id === item.getAttribute('data-id'));
+        if (!departure) return;
+
+        this.selectedId = departure.id;
+        if (this.onSelectCallback) {
+          this.onSelectCallback(departure);
+        }
+      });
+    });
+  }
+
+  private formatDelay(departure: Departure): string {
+    if (departure.cancelled) return 'Cancelled';
+    // Only late departures, once the delay rounds to a full minute
+    if (departure.delay === undefined || departure.delay < 30000) return '';
+    return formatDelayMinutes(departure.delay);
+  }
+
+  onSelect(callback: DepartureSelectCallback) {
+    this.onSelectCallback = callback;
+  }
+
+  onClose(callback: CloseCallback) {
+    this.onCloseCallback = callback;
+  }
+
+  destroy() {
+    this.hide();
+    this.disposeListener();
+  }
+}
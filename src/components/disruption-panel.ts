@@ -0,0 +1,153 @@
+// Import Calcite components
+import '@esri/calcite-components/dist/components/calcite-panel';
+import '@esri/calcite-components/dist/components/calcite-list';
+import '@esri/calcite-components/dist/components/calcite-list-item';
+
+import { normalizeLineName } from '../types/geops';
+
+import { escapeHtml } from './html';
+
+import type { Disposer } from '../services/event-emitter';
+import type { GeopsApiService } from '../services/geops-api';
+import type { Disruption } from '../types/geops';
+
+type DisruptionSelectCallback = (_disruption: Disruption | null) => void;
+
+// Disruption panel configuration
+const PANEL_CONFIG = {
+  MAX_MESSAGES: 10,
+  MAX_TEXT_LENGTH: 160,
+  // Re-filter periodically: visible lines change as vehicles move and messages expire
+  REFRESH_INTERVAL: 10000,
+};
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+// Collapsible list of newsticker messages for the lines currently in the bbox
+export class DisruptionPanel {
+  private container: HTMLElement;
+  private apiService: GeopsApiService;
+  private disruptions: Disruption[] = [];
+  private selectedId: string | null = null;
+  private onSelectCallback: DisruptionSelectCallback | null = null;
+  private disposeListener: Disposer;
+  private intervalId: number | null = null;
+
+  constructor(containerId: string, apiService: GeopsApiService) {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container element #${containerId} not found`);
+    }
+    this.container = container;
+    this.apiService = apiService;
+
+    this.disposeListener = this.apiService.on('disruptions', (disruptions) => {
+      this.disruptions = disruptions;
+      this.renderMessages();
+    });
+
+    this.render();
+    this.renderMessages();
+    this.intervalId = window.setInterval(() => {
+      this.disruptions = this.apiService.getDisruptions();
+      this.renderMessages();
+    }, PANEL_CONFIG.REFRESH_INTERVAL);
+  }
+
+  private render() {
+    this.container.innerHTML = `
+      <div class="disruption-panel">
+        <calcite-panel heading="Disruptions" collapsible scale="s">
+          <calcite-list id="disruption-list" label="Disruptions"></calcite-list>
+        </calcite-panel>
+      </div>
+    `;
+
+    // Collapsing the panel also clears the line highlight
+    this.container.querySelector('calcite-panel')?.addEventListener('calcitePanelToggle', (event) => {
+      const panelEl = event.target as HTMLElement & { collapsed: boolean };
+      if (panelEl.collapsed) {
+        this.select(null);
+      }
+    });
+  }
+
+  // Messages without lines are network-wide and always relevant
+  private getVisibleDisruptions(): Disruption[] {
+    const visibleLines = new Set<string>();
+    for (const vehicle of this.apiService.getVehicles()) {
+      if (vehicle.lineName) visibleLines.add(normalizeLineName(vehicle.lineName));
+    }
+
+    return this.disruptions.filter(
+      (disruption) =>
+        disruption.lines.length === 0 || disruption.lines.some((line) => visibleLines.has(normalizeLineName(line))),
+    );
+  }
+
+  private renderMessages() {
+    const listEl = this.container.querySelector('#disruption-list');
+    if (!listEl) return;
+
+    const visible = this.getVisibleDisruptions();
+    this.container.style.display = visible.length > 0 ? 'block' : 'none';
+    this.container.querySelector('calcite-panel')?.setAttribute('heading', `Disruptions (${visible.length})`);
+
+    // Drop the highlight when its message left the bbox or expired
+    if (this.selectedId && !visible.some((disruption) => disruption.id === this.selectedId)) {
+      this.select(null);
+    }
+
+    listEl.innerHTML = visible
+      .slice(0, PANEL_CONFIG.MAX_MESSAGES)
+      .map((disruption) => {
+        const lines = disruption.lines
+          .map((line) => `<span class="disruption-line">${escapeHtml(line)}</span>`)
+          .join('');
+
+        return `
+        <calcite-list-item
+          label="${escapeHtml(disruption.title)}"
+          description="${escapeHtml(truncate(disruption.text, PANEL_CONFIG.MAX_TEXT_LENGTH))}"
+          data-id="${escapeHtml(disruption.id)}"
+          ${disruption.id === this.selectedId ? 'selected' : ''}
+        >
+          ${lines ? `<span slot="content-end" class="disruption-lines">${lines}</span>` : ''}
+        </calcite-list-item>
+      `;
+      })
+      .join('');
+
+    listEl.querySelectorAll('calcite-list-item').forEach((item) => {
+      item.addEventListener('click', () => {
+        const disruption = this.disruptions.find((candidate) => candidate.id === item.getAttribute('data-id'));
+        if (!disruption) return;
+
+        // Clicking the selected message again clears the highlight
+        this.select(disruption.id === this.selectedId ? null : disruption);
+        this.renderMessages();
+      });
+    });
+  }
+
+  private select(disruption: Disruption | null) {
+    this.selectedId = disruption ? disruption.id : null;
+    if (this.onSelectCallback) {
+      this.onSelectCallback(disruption);
+    }
+  }
+
+  onSelect(callback: DisruptionSelectCallback) {
+    this.onSelectCallback = callback;
+  }
+
+  destroy() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.disposeListener();
+  }
+}
@@ -0,0 +1,165 @@
+// Import Calcite components
+import '@esri/calcite-components/dist/components/calcite-panel';
+import '@esri/calcite-components/dist/components/calcite-action';
+import '@esri/calcite-components/dist/components/calcite-label';
+import '@esri/calcite-components/dist/components/calcite-input-text';
+import '@esri/calcite-components/dist/components/calcite-input-number';
+import '@esri/calcite-components/dist/components/calcite-combobox';
+import '@esri/calcite-components/dist/components/calcite-combobox-item';
+
+import { isEmptyFilter } from '../services/vehicle-filter';
+import { MOTS, TRANSPORT_MODES, VEHICLE_STATE_LABELS, VEHICLE_STATES } from '../types/geops';
+
+import { escapeHtml } from './html';
+
+import type { VehicleFilter } from '../services/vehicle-filter';
+import type { VehicleState } from '../types/geops';
+
+type FilterChangeCallback = (_filter: VehicleFilter) => void;
+
+// Selected values of a multiple-selection combobox
+function getSelectedValues(combobox: Element | null): string[] {
+  const items = (combobox as (HTMLElement & { selectedItems: { value: string }[] }) | null)?.selectedItems ?? [];
+  return items.map((item) => item.value);
+}
+
+// Collapsible editor for the user vehicle filter (same criteria as ?filter=)
+export class FilterPanel {
+  private container: HTMLElement;
+  private onChangeCallback: FilterChangeCallback | null = null;
+
+  constructor(containerId: string, initialFilter: VehicleFilter = {}) {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container element #${containerId} not found`);
+    }
+    this.container = container;
+
+    this.render(initialFilter);
+    this.setupEventListeners();
+    this.updateHeading(initialFilter);
+  }
+
+  private render(filter: VehicleFilter) {
+    const typeItems = MOTS.map(
+      (mot) =>
+        `<calcite-combobox-item value="${mot}" heading="${TRANSPORT_MODES[mot].label}" ${
+          filter.types?.includes(mot) ? 'selected' : ''
+        }></calcite-combobox-item>`,
+    ).join('');
+    const stateItems = VEHICLE_STATES.map(
+      (state) =>
+        `<calcite-combobox-item value="${state}" heading="${VEHICLE_STATE_LABELS[state]}" ${
+          filter.states?.includes(state) ? 'selected' : ''
+        }></calcite-combobox-item>`,
+    ).join('');
+    const minDelay = filter.minDelay !== undefined ? String(filter.minDelay / 60000) : '';
+
+    this.container.innerHTML = `
+      <div class="filter-panel">
+        <calcite-panel heading="Filter" collapsible collapsed scale="s">
+          <calcite-action slot="header-actions-end" id="filter-clear" icon="reset" text="Clear filter" scale="s"></calcite-action>
+          <div class="filter-fields">
+            <calcite-label scale="s">
+              Lines
+              <calcite-input-text id="filter-lines" scale="s" placeholder="IC*, S12" value="${escapeHtml(
+                filter.lines?.join(', ') ?? '',
+              )}"></calcite-input-text>
+            </calcite-label>
+            <calcite-label scale="s">
+              Modes of transport
+              <calcite-combobox id="filter-types" scale="s" selection-mode="multiple" placeholder="All" label="Modes of transport">
+                ${typeItems}
+              </calcite-combobox>
+            </calcite-label>
+            <calcite-label scale="s">
+              Minimum delay (min)
+              <calcite-input-number id="filter-delay" scale="s" min="0" step="1" value="${minDelay}"></calcite-input-number>
+            </calcite-label>
+            <calcite-label scale="s">
+              State
+              <calcite-combobox id="filter-states" scale="s" selection-mode="multiple" placeholder="All" label="State">
+                ${stateItems}
+              </calcite-combobox>
+            </calcite-label>
+            <calcite-label scale="s">
+              Destination
+              <calcite-input-text id="filter-destination" scale="s" value="${escapeHtml(
+                filter.destination ?? '',
+              )}"></calcite-input-text>
+            </calcite-label>
+          </div>
+        </calcite-panel>
+      </div>
+    `;
+  }
+
+  private setupEventListeners() {
+    const onChange = () => {
+      const filter = this.readFilter();
+      this.updateHeading(filter);
+      if (this.onChangeCallback) {
+        this.onChangeCallback(filter);
+      }
+    };
+
+    this.container.querySelectorAll('calcite-input-text').forEach((input) => {
+      input.addEventListener('calciteInputTextChange', onChange);
+    });
+    this.container.querySelector('#filter-delay')?.addEventListener('calciteInputNumberChange', onChange);
+    this.container.querySelectorAll('calcite-combobox').forEach((combobox) => {
+      combobox.addEventListener('calciteComboboxChange', onChange);
+    });
+
+    this.container.querySelector('#filter-clear')?.addEventListener('click', () => {
+      this.render({});
+      this.setupEventListeners();
+      // Keep the panel open after the re-render
+      this.container.querySelector('calcite-panel')?.removeAttribute('collapsed');
+      onChange();
+    });
+  }
+
+  // Build the filter from the current field values
+  private readFilter(): VehicleFilter {
+    const filter: VehicleFilter = {};
+
+    const lines = this.getInputValue('#filter-lines')
+      .split(',')
+      .map((line) => line.trim())
+      .filter(Boolean);
+    if (lines.length > 0) filter.lines = lines;
+
+    const types = getSelectedValues(this.container.querySelector('#filter-types'));
+    if (types.length > 0) filter.types = types;
+
+    const minDelay = Number(this.getInputValue('#filter-delay'));
+    if (this.getInputValue('#filter-delay') !== '' && Number.isFinite(minDelay) && minDelay >= 0) {
+      filter.minDelay = minDelay * 60000;
+    }
+
+    const states = getSelectedValues(this.container.querySelector('#filter-states')) as VehicleState[];
+    if (states.length > 0) filter.states = states;
+
+    const destination = this.getInputValue('#filter-destination').trim();
+    if (destination) filter.destination = destination;
+
+    return filter;
+  }
+
+  private getInputValue(selector: string): string {
+    const input = this.container.querySelector<HTMLElement & { value: string }>(selector);
+    return input?.value ?? '';
+  }
+
+  // Show at a glance (even when collapsed) that vehicles are hidden
+  private updateHeading(filter: VehicleFilter) {
+    this.container
+      .querySelector('calcite-panel')
+      ?.setAttribute('heading', isEmptyFilter(filter) ? 'Filter' : 'Filter (active)');
+  }
+
+  onChange(callback: FilterChangeCallback) {
+    this.onChangeCallback = callback;
+  }
+}
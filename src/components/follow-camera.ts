@@ -0,0 +1,337 @@
+// Import Calcite components
+import '@esri/calcite-components/dist/components/calcite-button';
+import '@esri/calcite-components/dist/components/calcite-segmented-control';
+import '@esri/calcite-components/dist/components/calcite-segmented-control-item';
+
+import Camera from '@arcgis/core/Camera';
+import * as reactiveUtils from '@arcgis/core/core/reactiveUtils';
+import * as projectOperator from '@arcgis/core/geometry/operators/projectOperator';
+import Point from '@arcgis/core/geometry/Point';
+import SpatialReference from '@arcgis/core/geometry/SpatialReference';
+
+import { escapeHtml } from './html';
+
+import type { Vehicle } from '../types/geops';
+
+// How the camera follows the vehicle
+// - top-down: straight above, keeping the current heading
+// - chase: behind the vehicle at a fixed tilt, turning with it
+// - orbit: circling the vehicle at a fixed tilt
+export type FollowStyle = 'top-down' | 'chase' | 'orbit';
+
+type StopCallback = () => void;
+
+const FOLLOW_STYLES: readonly FollowStyle[] = ['top-down', 'chase', 'orbit'];
+
+const FOLLOW_STYLE_LABELS: Record<FollowStyle, string> = {
+  'top-down': 'Top-down',
+  'chase': 'Chase',
+  'orbit': 'Orbit',
+};
+
+// Camera height above the vehicle (m) and tilt (degrees) per style
+const FOLLOW_CONFIG = {
+  STYLES: {
+    'top-down': { altitude: 1500, tilt: 0 },
+    'chase': { altitude: 250, tilt: 70 },
+    'orbit': { altitude: 400, tilt: 60 },
+  } as Record<FollowStyle, { altitude: number; tilt: number }>,
+  ORBIT_SPEED: 10, // degrees per second
+  // Time constants (s) of the exponential smoothing; trajectory updates and the stepwise
+  // rotation of the time intervals would otherwise jolt the camera
+  POSITION_SMOOTHING: 0.3,
+  HEADING_SMOOTHING: 0.8,
+  FLY_IN_DURATION: 1500, // ms from the current view to the vehicle
+  EARTH_RADIUS: 6378137,
+};
+
+// Spatial references
+const WEB_MERCATOR = new SpatialReference({ wkid: 3857 });
+
+// Parse a follow style (e.g. from ?follow=), null if unknown
+export function parseFollowStyle(value: string | null | undefined): FollowStyle | null {
+  if (!value) return null;
+  const style = value.toLowerCase() as FollowStyle;
+  return FOLLOW_STYLES.includes(style) ? style : null;
+}
+
+// Compass heading (degrees clockwise from north) of a trajectory rotation
+// (radians counter-clockwise from east, as in the time intervals)
+function rotationToHeading(rotation: number): number {
+  return normalizeHeading(90 - (rotation * 180) / Math.PI);
+}
+
+function normalizeHeading(heading: number): number {
+  return ((heading % 360) + 360) % 360;
+}
+
+// Move from one heading towards another along the shorter direction
+function approachHeading(from: number, to: number, factor: number): number {
+  let delta = (to - from) % 360;
+  if (delta > 180) delta -= 360;
+  if (delta < -180) delta += 360;
+  return normalizeHeading(from + delta * factor);
+}
+
+// Chase camera for one vehicle: follows the interpolated positions of the 'vehicles' event.
+// Manual navigation suspends following until "Resume"; "Stop following" ends it.
+export class FollowCamera {
+  private container: HTMLElement;
+  private view: __esri.SceneView;
+  private style: FollowStyle;
+  private vehicleId: string | null = null;
+  private target: Vehicle | null = null; // latest interpolated position
+  private outOfView = false; // not in the latest update (filtered out or outside the subscription)
+  private smoothed: { x: number; y: number; heading: number } | null = null;
+  private orbitHeading = 0;
+  private suspended = false;
+  private flyingIn = false;
+  private animationFrame: number | null = null;
+  private lastFrameTime = 0;
+  private onStopCallback: StopCallback | null = null;
+  private handles: IHandle[] = [];
+
+  constructor(containerId: string, view: __esri.SceneView, style: FollowStyle = 'chase') {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container element #${containerId} not found`);
+    }
+    this.container = container;
+    this.view = view;
+    this.style = style;
+
+    this.render();
+    this.setupEventListeners();
+    this.container.style.display = 'none';
+
+    // Any user gesture on the view takes over the camera
+    this.handles.push(
+      reactiveUtils.watch(
+        () => view.interacting,
+        (interacting) => {
+          if (interacting) this.suspend();
+        },
+      ),
+      view.on('mouse-wheel', () => this.suspend()),
+      view.on('key-down', (event) => {
+        if (event.key === 'Escape') {
+          this.stop();
+        }
+      }),
+    );
+  }
+
+  private render() {
+    const styleItems = FOLLOW_STYLES.map(
+      (style) =>
+        `<calcite-segmented-control-item value="${style}" ${style === this.style ? 'checked' : ''}>${
+          FOLLOW_STYLE_LABELS[style]
+        }</calcite-segmented-control-item>`,
+    ).join('');
+
+    this.container.innerHTML = `
+      <div class="follow-controls">
+        <div class="panel-row follow-status" id="follow-status"></div>
+        <div class="panel-row">
+          <calcite-segmented-control id="follow-style" scale="s">${styleItems}</calcite-segmented-control>
+        </div>
+        <div class="panel-row">
+          <calcite-button id="follow-resume" scale="s" appearance="outline" icon-start="play" hidden>Resume</calcite-button>
+          <calcite-button id="follow-stop" scale="s" kind="danger" icon-start="x">Stop following</calcite-button>
+        </div>
+      </div>
+    `;
+  }
+
+  private setupEventListeners() {
+    this.container.querySelector('#follow-style')?.addEventListener('calciteSegmentedControlChange', (event) => {
+      this.style = (event.target as HTMLElement & { value: FollowStyle }).value;
+      if (this.style === 'orbit' && this.smoothed) {
+        this.orbitHeading = this.smoothed.heading;
+      }
+      // Picking a style also takes the camera back
+      this.resume();
+    });
+    this.container.querySelector('#follow-resume')?.addEventListener('click', () => this.resume());
+    this.container.querySelector('#follow-stop')?.addEventListener('click', () => this.stop());
+  }
+
+  // Start following a vehicle (replaces the previous one)
+  follow(vehicleId: string) {
+    this.vehicleId = vehicleId;
+    this.target = null;
+    this.outOfView = false;
+    this.smoothed = null;
+    this.orbitHeading = this.view.camera.heading;
+    this.suspended = false;
+    this.container.style.display = '';
+    this.updateControls();
+    this.startAnimation();
+  }
+
+  // Stop following (the vehicle selection itself is up to the caller)
+  stop() {
+    if (!this.vehicleId) return;
+
+    this.vehicleId = null;
+    this.target = null;
+    this.smoothed = null;
+    this.stopAnimation();
+    this.container.style.display = 'none';
+    if (this.onStopCallback) {
+      this.onStopCallback();
+    }
+  }
+
+  // Hand the camera to the user; the vehicle stays selected
+  private suspend() {
+    if (!this.vehicleId || this.suspended) return;
+    this.suspended = true;
+    this.stopAnimation();
+    this.updateControls();
+  }
+
+  private resume() {
+    if (!this.vehicleId) return;
+    this.suspended = false;
+    // Start from the vehicle again rather than gliding from where the user left the camera
+    this.smoothed = null;
+    this.updateControls();
+    this.startAnimation();
+  }
+
+  getVehicleId(): string | null {
+    return this.vehicleId;
+  }
+
+  // True while the camera is driven by the followed vehicle
+  isActive(): boolean {
+    return this.vehicleId !== null && !this.suspended;
+  }
+
+  // Feed the interpolated vehicles (from the 'vehicles' event); while the vehicle is missing
+  // the camera stays at its last position and picks it up again when it comes back
+  update(vehicles: Vehicle[]) {
+    if (!this.vehicleId) return;
+
+    const vehicle = vehicles.find((candidate) => candidate.id === this.vehicleId);
+    const changed = this.outOfView !== !vehicle || (vehicle && this.target?.lineName !== vehicle.lineName);
+    this.outOfView = !vehicle;
+    if (vehicle) this.target = vehicle;
+    if (changed) this.updateControls();
+  }
+
+  private updateControls() {
+    const statusEl = this.container.querySelector('#follow-status');
+    if (statusEl) {
+      const name = this.target?.lineName ?? this.vehicleId ?? '';
+      const destination = this.target?.destination ? ` to ${this.target.destination}` : '';
+      const state = this.suspended ? ' (paused)' : this.outOfView && this.target ? ' (out of view)' : '';
+      statusEl.innerHTML = `Following <strong>${escapeHtml(name)}</strong>${escapeHtml(destination)}${state}`;
+    }
+    this.container.querySelector('#follow-resume')?.toggleAttribute('hidden', !this.suspended);
+  }
+
+  private startAnimation() {
+    if (this.animationFrame !== null) return;
+    this.lastFrameTime = performance.now();
+
+    const animate = (timestamp: number) => {
+      const elapsed = Math.max(0, (timestamp - this.lastFrameTime) / 1000);
+      this.lastFrameTime = timestamp;
+      this.moveCamera(elapsed);
+      this.animationFrame = requestAnimationFrame(animate);
+    };
+    this.animationFrame = requestAnimationFrame(animate);
+  }
+
+  private stopAnimation() {
+    if (this.animationFrame !== null) {
+      cancelAnimationFrame(this.animationFrame);
+      this.animationFrame = null;
+    }
+  }
+
+  // Ease the camera towards the latest vehicle position (elapsed seconds since the last frame)
+  private moveCamera(elapsed: number) {
+    if (!this.target || this.flyingIn || !projectOperator.isLoaded()) return;
+
+    const { x, y, rotation } = this.target;
+    const heading = rotationToHeading(rotation);
+    const starting = !this.smoothed;
+    if (!this.smoothed) {
+      this.smoothed = { x, y, heading };
+    } else {
+      const positionFactor = 1 - Math.exp(-elapsed / FOLLOW_CONFIG.POSITION_SMOOTHING);
+      const headingFactor = 1 - Math.exp(-elapsed / FOLLOW_CONFIG.HEADING_SMOOTHING);
+      this.smoothed.x += (x - this.smoothed.x) * positionFactor;
+      this.smoothed.y += (y - this.smoothed.y) * positionFactor;
+      this.smoothed.heading = approachHeading(this.smoothed.heading, heading, headingFactor);
+    }
+
+    const { altitude, tilt } = FOLLOW_CONFIG.STYLES[this.style];
+    let cameraHeading: number;
+    if (this.style === 'chase') {
+      cameraHeading = this.smoothed.heading;
+    } else if (this.style === 'orbit') {
+      this.orbitHeading = normalizeHeading(this.orbitHeading + FOLLOW_CONFIG.ORBIT_SPEED * elapsed);
+      cameraHeading = this.orbitHeading;
+    } else {
+      cameraHeading = this.view.camera.heading;
+    }
+
+    // Step back from the vehicle against the viewing direction; Web Mercator units are
+    // stretched by 1 / cos(latitude) compared to meters on the ground
+    const latitude = 2 * Math.atan(Math.exp(this.smoothed.y / FOLLOW_CONFIG.EARTH_RADIUS)) - Math.PI / 2;
+    const distance = (altitude * Math.tan((tilt * Math.PI) / 180)) / Math.cos(latitude);
+    const headingRadians = (cameraHeading * Math.PI) / 180;
+
+    const vehiclePoint = projectOperator.execute(
+      new Point({ x: this.smoothed.x, y: this.smoothed.y, spatialReference: WEB_MERCATOR }),
+      this.view.spatialReference,
+    ) as Point;
+    const groundElevation = this.view.groundView.elevationSampler?.queryElevation(vehiclePoint) as Point | undefined;
+
+    const cameraPoint = projectOperator.execute(
+      new Point({
+        x: this.smoothed.x - Math.sin(headingRadians) * distance,
+        y: this.smoothed.y - Math.cos(headingRadians) * distance,
+        spatialReference: WEB_MERCATOR,
+      }),
+      this.view.spatialReference,
+    ) as Point;
+    cameraPoint.z = (groundElevation?.z ?? 0) + altitude;
+
+    const camera = new Camera({
+      position: cameraPoint,
+      heading: cameraHeading,
+      tilt,
+      fov: this.view.camera.fov,
+    });
+
+    // Glide to the vehicle first; from then on the camera is set every frame
+    if (starting) {
+      this.flyingIn = true;
+      this.view
+        .goTo(camera, { duration: FOLLOW_CONFIG.FLY_IN_DURATION })
+        .catch(() => {
+          // Interrupted by the user or a new selection
+        })
+        .finally(() => {
+          this.flyingIn = false;
+        });
+      return;
+    }
+    this.view.camera = camera;
+  }
+
+  onStop(callback: StopCallback) {
+    this.onStopCallback = callback;
+  }
+
+  destroy() {
+    this.stopAnimation();
+    this.handles.forEach((handle) => handle.remove());
+    this.handles = [];
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+
+import { escapeHtml, formatDelayMinutes, formatTime, isHexColor } from './html';
+
+describe('escapeHtml', () => {
+  it('escapes markup in element content', () => {
+    expect(escapeHtml('<img src=x onerror="alert(1)">')).toBe('&lt;img src=x onerror=&quot;alert(1)&quot;&gt;');
+    expect(escapeHtml('R&D')).toBe('R&amp;D');
+  });
+
+  it('keeps quoted attribute values from breaking out', () => {
+    const value = escapeHtml(`" autofocus onfocus="alert(1)`);
+    expect(value).not.toContain('"');
+    expect(`value="${value}"`).toBe('value="&quot; autofocus onfocus=&quot;alert(1)"');
+    expect(escapeHtml("it's")).toBe('it&#39;s');
+  });
+
+  it('leaves plain text unchanged', () => {
+    expect(escapeHtml('IC 5 to Zürich HB')).toBe('IC 5 to Zürich HB');
+  });
+});
+
+describe('isHexColor', () => {
+  it('accepts hex colors', () => {
+    expect(isHexColor('#eb0000')).toBe(true);
+    expect(isHexColor('#0AF')).toBe(true);
+    expect(isHexColor('#eb0000cc')).toBe(true);
+    expect(isHexColor('#e00c')).toBe(true);
+  });
+
+  it('rejects anything that could carry more CSS', () => {
+    expect(isHexColor(undefined)).toBe(false);
+    expect(isHexColor('eb0000')).toBe(false);
+    expect(isHexColor('red')).toBe(false);
+    expect(isHexColor('#eb0000; background-image: url(x)')).toBe(false);
+    expect(isHexColor('#eb000')).toBe(false);
+  });
+});
+
+describe('formatTime', () => {
+  it('formats local time with or without seconds', () => {
+    const timestamp = new Date(2024, 11, 11, 7, 5, 9).getTime();
+    expect(formatTime(timestamp)).toBe('07:05');
+    expect(formatTime(timestamp, true)).toBe('07:05:09');
+  });
+});
+
+describe('formatDelayMinutes', () => {
+  it('rounds to signed whole minutes', () => {
+    expect(formatDelayMinutes(3 * 60000 + 20000)).toBe('+3 min');
+    expect(formatDelayMinutes(-90000)).toBe('-1 min');
+    expect(formatDelayMinutes(10000)).toBe('0 min');
+  });
+});
@@ -0,0 +1,39 @@
+// HTML and formatting helpers for the components that render with innerHTML
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+// Escape text for element content and quoted attribute values (prevents XSS);
+// unlike the textContent/innerHTML round trip this also encodes quotes
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ENTITIES[char]);
+}
+
+// Hex color (#rgb, #rgba, #rrggbb or #rrggbbaa) from tracker data, safe to put into a style attribute
+export function isHexColor(value: string | undefined): value is string {
+  return value !== undefined && /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value);
+}
+
+const TIME_FORMAT = new Intl.DateTimeFormat('en-GB', { hour: '2-digit', minute: '2-digit', hour12: false });
+const TIME_FORMAT_SECONDS = new Intl.DateTimeFormat('en-GB', {
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+  hour12: false,
+});
+
+// Format epoch ms as HH:MM, or HH:MM:SS with seconds
+export function formatTime(timestamp: number, withSeconds = false): string {
+  return (withSeconds ? TIME_FORMAT_SECONDS : TIME_FORMAT).format(new Date(timestamp));
+}
+
+// Delay in ms as signed whole minutes: "+3 min", "-1 min", "0 min"
+export function formatDelayMinutes(delay: number): string {
+  const minutes = Math.round(delay / 60000);
+  return minutes > 0 ? `+${minutes} min` : `${minutes} min`;
+}
@@ -0,0 +1,393 @@
+// Import Calcite components
+import '@esri/calcite-components/dist/components/calcite-panel';
+import '@esri/calcite-components/dist/components/calcite-action';
+import '@esri/calcite-components/dist/components/calcite-segmented-control';
+import '@esri/calcite-components/dist/components/calcite-segmented-control-item';
+import '@esri/calcite-components/dist/components/calcite-table';
+import '@esri/calcite-components/dist/components/calcite-table-row';
+import '@esri/calcite-components/dist/components/calcite-table-header';
+import '@esri/calcite-components/dist/components/calcite-table-cell';
+
+import { getTransportMode } from '../types/geops';
+
+import { escapeHtml, isHexColor } from './html';
+
+import type {
+  DelayOffender,
+  LineStatistics,
+  ModeStatistics,
+  PunctualityFigures,
+  PunctualityStats,
+} from '../services/punctuality-stats';
+import type { DelayCategory } from '../types/geops';
+
+type VehicleSelectCallback = (_vehicleId: string) => void;
+
+type PanelView = 'lines' | 'modes' | 'offenders';
+
+// Sortable table column; value is what the column sorts by
+interface Column<T> {
+  key: string;
+  heading: string;
+  value: (_row: T) => number | string;
+  format: (_row: T) => string; // HTML, values must be escaped
+  numeric?: boolean;
+}
+
+interface SortState {
+  key: string;
+  descending: boolean;
+}
+
+// Punctuality panel configuration
+const PANEL_CONFIG = {
+  REFRESH_INTERVAL: 5000,
+  MAX_LINES: 50,
+  TREND_WIDTH: 200,
+  TREND_HEIGHT: 40,
+};
+
+const CATEGORY_LABELS: Record<DelayCategory, string> = {
+  'on-time': 'On time',
+  'delayed': 'Delayed',
+  'very-delayed': 'Very delayed',
+};
+
+function formatMinutes(delay: number): string {
+  return `${(delay / 60000).toFixed(1)} min`;
+}
+
+function formatShare(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+function getModeLabel(type?: string): string {
+  return getTransportMode(type)?.label ?? type ?? '–';
+}
+
+function formatLine(lineName: string | undefined, lineColor?: string): string {
+  const style = isHexColor(lineColor) ? ` style="background: ${lineColor}"` : '';
+  return `<span class="punctuality-line"${style}>${escapeHtml(lineName ?? '?')}</span>`;
+}
+
+// Columns shared by the line and mode tables
+function figureColumns<T extends PunctualityFigures>(): Column<T>[] {
+  return [
+    {
+      key: 'onTime',
+      heading: 'On time',
+      value: (row) => row.shares['on-time'],
+      format: (row) => formatShare(row.shares['on-time']),
+      numeric: true,
+    },
+    {
+      key: 'mean',
+      heading: 'Mean',
+      value: (row) => row.meanDelay,
+      format: (row) => formatMinutes(row.meanDelay),
+      numeric: true,
+    },
+    {
+      key: 'p90',
+      heading: 'P90',
+      value: (row) => row.p90Delay,
+      format: (row) => formatMinutes(row.p90Delay),
+      numeric: true,
+    },
+  ];
+}
+
+const LINE_COLUMNS: Column<LineStatistics>[] = [
+  {
+    key: 'line',
+    heading: 'Line',
+    value: (row) => row.lineName,
+    format: (row) => formatLine(row.lineName, row.lineColor),
+  },
+  {
+    key: 'vehicles',
+    heading: 'Veh.',
+    value: (row) => row.vehicles,
+    format: (row) => String(row.vehicles),
+    numeric: true,
+  },
+  ...figureColumns<LineStatistics>(),
+];
+
+const MODE_COLUMNS: Column<ModeStatistics>[] = [
+  {
+    key: 'mode',
+    heading: 'Mode',
+    value: (row) => getModeLabel(row.type),
+    format: (row) => escapeHtml(getModeLabel(row.type)),
+  },
+  {
+    key: 'vehicles',
+    heading: 'Veh.',
+    value: (row) => row.vehicles,
+    format: (row) => String(row.vehicles),
+    numeric: true,
+  },
+  ...figureColumns<ModeStatistics>(),
+];
+
+const OFFENDER_COLUMNS: Column<DelayOffender>[] = [
+  { key: 'line', heading: 'Line', value: (row) => row.lineName ?? '', format: (row) => formatLine(row.lineName) },
+  {
+    key: 'destination',
+    heading: 'To',
+    value: (row) => row.destination ?? '',
+    format: (row) => escapeHtml(row.destination ?? ''),
+  },
+  {
+    key: 'delay',
+    heading: 'Delay',
+    value: (row) => row.delay,
+    format: (row) => `+${Math.round(row.delay / 60000)} min`,
+    numeric: true,
+  },
+];
+
+function sortRows<T>(rows: T[], columns: Column<T>[], sort: SortState): T[] {
+  const column = columns.find((candidate) => candidate.key === sort.key) ?? columns[0];
+  const direction = sort.descending ? -1 : 1;
+  return [...rows].sort((a, b) => {
+    const valueA = column.value(a);
+    const valueB = column.value(b);
+    const order =
+      typeof valueA === 'number' && typeof valueB === 'number'
+        ? valueA - valueB
+        : String(valueA).localeCompare(String(valueB), undefined, { numeric: true });
+    return order * direction;
+  });
+}
+
+// Small inline SVG line of the mean delay over the window
+function renderTrend(trend: { time: number; meanDelay: number }[]): string {
+  if (trend.length < 2) return '';
+
+  const { TREND_WIDTH, TREND_HEIGHT } = PANEL_CONFIG;
+  const start = trend[0].time;
+  const duration = Math.max(1, trend[trend.length - 1].time - start);
+  const maxDelay = Math.max(60000, ...trend.map((point) => point.meanDelay));
+  const points = trend
+    .map((point) => {
+      const x = ((point.time - start) / duration) * TREND_WIDTH;
+      const y = TREND_HEIGHT - (Math.max(0, point.meanDelay) / maxDelay) * TREND_HEIGHT;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return `
+    <svg class="punctuality-trend" viewBox="0 0 ${TREND_WIDTH} ${TREND_HEIGHT}" preserveAspectRatio="none" role="img"
+      aria-label="Mean delay over time (max ${formatMinutes(maxDelay)})">
+      <polyline points="${points}" fill="none" stroke="currentColor" stroke-width="2" />
+    </svg>
+  `;
+}
+
+// Collapsible operations dashboard: rolling punctuality overall, per line and per mode,
+// the most delayed vehicles, and a drill-down per line
+export class PunctualityPanel {
+  private container: HTMLElement;
+  private stats: PunctualityStats;
+  private view: PanelView = 'lines';
+  private sort: Record<PanelView, SortState> = {
+    lines: { key: 'mean', descending: true },
+    modes: { key: 'mean', descending: true },
+    offenders: { key: 'delay', descending: true },
+  };
+  private selectedLineKey: string | null = null;
+  private onSelectVehicleCallback: VehicleSelectCallback | null = null;
+  private intervalId: number | null = null;
+
+  constructor(containerId: string, stats: PunctualityStats) {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container element #${containerId} not found`);
+    }
+    this.container = container;
+    this.stats = stats;
+
+    this.render();
+    this.intervalId = window.setInterval(() => this.renderContent(), PANEL_CONFIG.REFRESH_INTERVAL);
+  }
+
+  private render() {
+    this.container.innerHTML = `
+      <div class="punctuality-panel">
+        <calcite-panel heading="Punctuality" collapsible collapsed scale="s">
+          <calcite-action slot="header-actions-start" id="punctuality-back" icon="chevron-left" text="Back" scale="s" hidden></calcite-action>
+          <div id="punctuality-content" class="punctuality-content"></div>
+        </calcite-panel>
+      </div>
+    `;
+
+    const panelEl = this.container.querySelector('calcite-panel');
+    panelEl?.addEventListener('calcitePanelToggle', () => this.renderContent());
+    this.container.querySelector('#punctuality-back')?.addEventListener('click', () => {
+      this.selectedLineKey = null;
+      this.renderContent();
+    });
+  }
+
+  private isCollapsed(): boolean {
+    const panelEl = this.container.querySelector('calcite-panel') as (HTMLElement & { collapsed: boolean }) | null;
+    return !panelEl || panelEl.collapsed;
+  }
+
+  // Re-render the open view (skipped while collapsed, the stats keep recording anyway)
+  private renderContent() {
+    const contentEl = this.container.querySelector('#punctuality-content');
+    if (!contentEl || this.isCollapsed()) return;
+
+    const backEl = this.container.querySelector('#punctuality-back');
+    const details = this.selectedLineKey ? this.stats.getLineDetails(this.selectedLineKey) : null;
+    if (this.selectedLineKey && !details) {
+      // The line left the window
+      this.selectedLineKey = null;
+    }
+    backEl?.toggleAttribute('hidden', !details);
+
+    if (details) {
+      const { line, vehicles, trend } = details;
+      contentEl.innerHTML = `
+        <div class="punctuality-heading">${formatLine(line.lineName, line.lineColor)} ${escapeHtml(getModeLabel(line.type))}</div>
+        ${this.renderFigures(line)}
+        ${renderTrend(trend)}
+        ${this.renderTable('offenders', vehicles, OFFENDER_COLUMNS, (row) => row.id)}
+      `;
+    } else {
+      const summary = this.stats.getSummary();
+      const windowMinutes = Math.round(this.stats.getWindow() / 60000);
+
+      let table: string;
+      if (this.view === 'lines') {
+        table = this.renderTable('lines', summary.byLine, LINE_COLUMNS, (row) => row.key, PANEL_CONFIG.MAX_LINES);
+      } else if (this.view === 'modes') {
+        table = this.renderTable('modes', summary.byMode, MODE_COLUMNS);
+      } else {
+        table = this.renderTable('offenders', summary.offenders, OFFENDER_COLUMNS, (row) => row.id);
+      }
+
+      contentEl.innerHTML = `
+        <div class="punctuality-window">Last ${windowMinutes} min, ${summary.overall.samples.toLocaleString()} samples</div>
+        ${this.renderFigures(summary.overall)}
+        <calcite-segmented-control id="punctuality-view" scale="s" width="full">
+          <calcite-segmented-control-item value="lines" ${this.view === 'lines' ? 'checked' : ''}>Lines</calcite-segmented-control-item>
+          <calcite-segmented-control-item value="modes" ${this.view === 'modes' ? 'checked' : ''}>Modes</calcite-segmented-control-item>
+          <calcite-segmented-control-item value="offenders" ${this.view === 'offenders' ? 'checked' : ''}>Worst</calcite-segmented-control-item>
+        </calcite-segmented-control>
+        ${table}
+      `;
+
+      contentEl.querySelector('#punctuality-view')?.addEventListener('calciteSegmentedControlChange', (event) => {
+        this.view = (event.target as HTMLElement & { value: PanelView }).value;
+        this.renderContent();
+      });
+    }
+
+    this.setupTableListeners(contentEl);
+  }
+
+  private renderFigures(figures: PunctualityFigures): string {
+    const shares = (Object.keys(CATEGORY_LABELS) as DelayCategory[])
+      .map(
+        (category) => `
+        <div class="punctuality-share punctuality-${category}">
+          <span class="punctuality-share-value">${formatShare(figures.shares[category])}</span>
+          <span class="punctuality-share-label">${CATEGORY_LABELS[category]}</span>
+        </div>
+      `,
+      )
+      .join('');
+
+    return `
+      <div class="punctuality-shares">${shares}</div>
+      <div class="punctuality-delays">
+        Mean ${formatMinutes(figures.meanDelay)} · P50 ${formatMinutes(figures.p50Delay)} · P90 ${formatMinutes(figures.p90Delay)}
+      </div>
+    `;
+  }
+
+  // rowId: rows with an id are clickable (line drill-down or vehicle selection)
+  private renderTable<T>(
+    view: PanelView,
+    rows: T[],
+    columns: Column<T>[],
+    rowId?: (_row: T) => string,
+    limit?: number,
+  ): string {
+    if (rows.length === 0) {
+      return '<div class="punctuality-empty">No delay data yet</div>';
+    }
+
+    const sort = this.sort[view];
+    const headers = columns
+      .map((column) => {
+        const arrow = column.key === sort.key ? (sort.descending ? ' ↓' : ' ↑') : '';
+        return `<calcite-table-header heading="${column.heading}${arrow}" data-view="${view}" data-key="${column.key}" ${
+          column.numeric ? 'alignment="end"' : ''
+        }></calcite-table-header>`;
+      })
+      .join('');
+
+    const body = sortRows(rows, columns, sort)
+      .slice(0, limit)
+      .map((row) => {
+        const cells = columns
+          .map(
+            (column) =>
+              `<calcite-table-cell ${column.numeric ? 'alignment="end"' : ''}>${column.format(row)}</calcite-table-cell>`,
+          )
+          .join('');
+        const id = rowId ? ` data-id="${escapeHtml(rowId(row))}" data-view="${view}"` : '';
+        return `<calcite-table-row${id}>${cells}</calcite-table-row>`;
+      })
+      .join('');
+
+    return `
+      <calcite-table scale="s" striped caption="Punctuality ${view}">
+        <calcite-table-row slot="table-header">${headers}</calcite-table-row>
+        ${body}
+      </calcite-table>
+    `;
+  }
+
+  private setupTableListeners(contentEl: Element) {
+    // Header click sorts by that column; again reverses the order
+    contentEl.querySelectorAll('calcite-table-header').forEach((header) => {
+      header.addEventListener('click', () => {
+        const view = header.getAttribute('data-view') as PanelView;
+        const key = header.getAttribute('data-key') ?? '';
+        const sort = this.sort[view];
+        this.sort[view] = { key, descending: sort.key === key ? !sort.descending : true };
+        this.renderContent();
+      });
+    });
+
+    contentEl.querySelectorAll('calcite-table-row[data-id]').forEach((row) => {
+      row.addEventListener('click', () => {
+        const id = row.getAttribute('data-id') ?? '';
+        if (row.getAttribute('data-view') === 'lines') {
+          this.selectedLineKey = id;
+          this.renderContent();
+        } else if (this.onSelectVehicleCallback) {
+          this.onSelectVehicleCallback(id);
+        }
+      });
+    });
+  }
+
+  // Called with the vehicle id when a row of the worst-offenders or line vehicle table is clicked
+  onSelectVehicle(callback: VehicleSelectCallback) {
+    this.onSelectVehicleCallback = callback;
+  }
+
+  destroy() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+}
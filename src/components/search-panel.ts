@@ -6,6 +6,8 @@ import '@esri/calcite-components/dist/components/calcite-icon';
 
 import { GEOPS_CONFIG } from '../types/geops';
 
+import { escapeHtml } from './html';
+
 interface StopFeature {
   type: 'Feature';
   geometry: {
@@ -25,16 +27,10 @@ interface StopsResponse {
   features: StopFeature[];
 }
 
-type StationSelectCallback = (_lng: number, _lat: number, _name: string) => void;
+// id is the stop's UIC number when the stops API provides one
+type StationSelectCallback = (_lng: number, _lat: number, _name: string, _id?: string) => void;
 type ClearCallback = () => void;
 
-// Escape HTML special characters to prevent XSS
-function escapeHtml(text: string): string {
-  const div = document.createElement('div');
-  div.textContent = text;
-  return div.innerHTML;
-}
-
 export class SearchPanel {
   private container: HTMLElement;
   private onSelectCallback: StationSelectCallback | null = null;
@@ -153,7 +149,7 @@ export class SearchPanel {
 
     this.listElement.innerHTML = features
       .map((feature) => {
-        const { name, country_code } = feature.properties;
+        const { name, id, country_code } = feature.properties;
         const [lng, lat] = feature.geometry.coordinates;
         const escapedName = escapeHtml(name);
         const escapedCountry = country_code ? escapeHtml(country_code) : '';
@@ -165,6 +161,7 @@ export class SearchPanel {
           data-lng="${lng}"
           data-lat="${lat}"
           data-name="${escapedName}"
+          data-id="${id ? escapeHtml(id) : ''}"
         >
           <calcite-icon icon="pin" slot="content-start"></calcite-icon>
         </calcite-list-item>
@@ -178,9 +175,10 @@ export class SearchPanel {
         const lng = parseFloat(item.getAttribute('data-lng') || '0');
         const lat = parseFloat(item.getAttribute('data-lat') || '0');
         const name = item.getAttribute('data-name') || '';
+        const id = item.getAttribute('data-id') || undefined;
 
         if (this.onSelectCallback) {
-          this.onSelectCallback(lng, lat, name);
+          this.onSelectCallback(lng, lat, name, id);
         }
 
         // Update input with selected station name
@@ -0,0 +1,164 @@
+// Import Calcite components
+import '@esri/calcite-components/dist/components/calcite-button';
+import '@esri/calcite-components/dist/components/calcite-segmented-control';
+import '@esri/calcite-components/dist/components/calcite-segmented-control-item';
+
+import { parseRecording, SessionRecorder } from '../services/session-recorder';
+import { REPLAY_SPEEDS, SessionReplay } from '../services/session-replay';
+import { createTransportFactory } from '../services/transport';
+
+import { formatTime } from './html';
+
+import type { GeopsApiService } from '../services/geops-api';
+import type { ReplaySpeed } from '../services/session-replay';
+
+// Record the raw tracker stream to NDJSON and replay recordings at 1x / 10x / 60x
+export class SessionControls {
+  private container: HTMLElement;
+  private apiService: GeopsApiService;
+  private recorder = new SessionRecorder();
+  private replay: SessionReplay | null = null;
+  private speed: ReplaySpeed = 1;
+  private intervalId: number | null = null;
+
+  constructor(containerId: string, apiService: GeopsApiService) {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container element #${containerId} not found`);
+    }
+    this.container = container;
+    this.apiService = apiService;
+    this.apiService.setRecorder(this.recorder);
+
+    this.render();
+    this.setupEventListeners();
+    this.intervalId = window.setInterval(() => this.updateStatus(), 1000);
+  }
+
+  private render() {
+    const speedItems = REPLAY_SPEEDS.map(
+      (speed) =>
+        `<calcite-segmented-control-item value="${speed}" ${speed === this.speed ? 'checked' : ''}>${speed}x</calcite-segmented-control-item>`,
+    ).join('');
+
+    this.container.innerHTML = `
+      <div class="session-controls">
+        <div class="panel-row">
+          <calcite-button id="session-record" scale="s" kind="neutral" icon-start="circle-f">Record</calcite-button>
+          <calcite-button id="session-download" scale="s" appearance="outline" icon-start="download" disabled>Download</calcite-button>
+        </div>
+        <div class="panel-row">
+          <calcite-button id="session-replay" scale="s" appearance="outline" icon-start="upload">Replay</calcite-button>
+          <calcite-segmented-control id="session-speed" scale="s">${speedItems}</calcite-segmented-control>
+          <calcite-button id="session-live" scale="s" appearance="transparent" icon-start="refresh" hidden>Live</calcite-button>
+        </div>
+        <div class="panel-row session-status" id="session-status"></div>
+        <input type="file" id="session-file" accept=".ndjson,.jsonl,application/x-ndjson" hidden />
+      </div>
+    `;
+  }
+
+  private setupEventListeners() {
+    const recordButton = this.container.querySelector('#session-record');
+    const downloadButton = this.container.querySelector('#session-download');
+    const replayButton = this.container.querySelector('#session-replay');
+    const liveButton = this.container.querySelector('#session-live');
+    const speedControl = this.container.querySelector('#session-speed');
+    const fileInput = this.container.querySelector<HTMLInputElement>('#session-file');
+
+    recordButton?.addEventListener('click', () => this.toggleRecording());
+    downloadButton?.addEventListener('click', () => this.recorder.download());
+    replayButton?.addEventListener('click', () => fileInput?.click());
+    liveButton?.addEventListener('click', () => this.goLive());
+
+    speedControl?.addEventListener('calciteSegmentedControlChange', (e) => {
+      const target = e.target as HTMLElement & { value: string };
+      this.speed = Number(target.value) as ReplaySpeed;
+      if (this.replay) {
+        this.replay.setSpeed(this.speed);
+      }
+      this.updateStatus();
+    });
+
+    fileInput?.addEventListener('change', () => {
+      const file = fileInput.files?.[0];
+      if (file) {
+        void this.startReplay(file);
+      }
+      // Allow picking the same file again
+      fileInput.value = '';
+    });
+  }
+
+  private toggleRecording() {
+    if (this.recorder.isRecording()) {
+      this.recorder.stop();
+    } else {
+      this.recorder.start();
+    }
+    this.updateStatus();
+  }
+
+  private async startReplay(file: File) {
+    try {
+      const frames = parseRecording(await file.text());
+      if (frames.length === 0) {
+        throw new Error('Recording contains no frames');
+      }
+
+      // Never record a replay into the recording it came from
+      this.recorder.stop();
+
+      this.replay = new SessionReplay(frames, this.speed);
+      this.apiService.setTransport(this.replay.createTransportFactory(), this.replay);
+    } catch (error) {
+      console.error('Replay error:', error);
+      this.replay = null;
+    }
+    this.updateStatus();
+  }
+
+  private goLive() {
+    this.replay = null;
+    this.apiService.setTransport(createTransportFactory());
+    this.updateStatus();
+  }
+
+  private updateStatus() {
+    const recordButton = this.container.querySelector('#session-record');
+    const downloadButton = this.container.querySelector('#session-download');
+    const liveButton = this.container.querySelector('#session-live');
+    const statusEl = this.container.querySelector('#session-status');
+
+    const recording = this.recorder.isRecording();
+    recordButton?.setAttribute('kind', recording ? 'danger' : 'neutral');
+    if (recordButton) recordButton.textContent = recording ? 'Stop' : 'Record';
+    downloadButton?.toggleAttribute('disabled', recording || this.recorder.getFrameCount() === 0);
+    liveButton?.toggleAttribute('hidden', !this.replay);
+
+    if (!statusEl) return;
+
+    if (this.replay) {
+      const start = this.replay.getStartTime();
+      const end = this.replay.getEndTime();
+      const now = Math.min(this.replay.now(), end);
+      const progress = end > start ? Math.round(((now - start) / (end - start)) * 100) : 100;
+      const label = this.replay.isFinished() ? 'Replay finished' : `Replay ${this.replay.getSpeed()}x`;
+      statusEl.textContent = `${label} · ${formatTime(now, true)} (${progress}%)`;
+    } else if (recording || this.recorder.getFrameCount() > 0) {
+      const prefix = recording ? 'Recording' : 'Recorded';
+      const limit = this.recorder.isLimitReached() ? ' (size limit reached)' : '';
+      statusEl.textContent = `${prefix}: ${this.recorder.getFrameCount().toLocaleString()} frames${limit}`;
+    } else {
+      statusEl.textContent = '';
+    }
+  }
+
+  destroy() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.apiService.setRecorder(null);
+  }
+}
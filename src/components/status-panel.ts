@@ -1,6 +1,11 @@
-import { SBB_BUS_ICON, SBB_TRAM_ICON, SBB_TRAIN_ICON } from '../icons/sbb-icons';
+// Import Calcite components
+import '@esri/calcite-components/dist/components/calcite-action';
+import '@esri/calcite-components/dist/components/calcite-slider';
+
+import { COUNT_BUCKETS } from '../types/geops';
 
 import type { GeopsApiService } from '../services/geops-api';
+import type { ConnectionState, CountBucket } from '../types/geops';
 import geopsLogoUrl from '/geops-logo.svg?url';
 import arcgisLogoUrl from '/logo.svg?url';
 
@@ -15,6 +20,26 @@ interface PerformanceWithMemory extends Performance {
   memory?: PerformanceMemory;
 }
 
+type CancelledVisibilityCallback = (_visible: boolean) => void;
+type RegionCallback = () => void;
+
+// Time offset slider range in minutes ("where will trains be in 10 minutes")
+const TIME_CONTROL_CONFIG = {
+  MIN_OFFSET_MINUTES: -30,
+  MAX_OFFSET_MINUTES: 60,
+};
+
+// Counter order in the stats row
+const COUNT_BUCKET_KEYS = Object.keys(COUNT_BUCKETS) as CountBucket[];
+
+// Label shown next to the LIVE blink (empty while connected)
+const CONNECTION_LABELS: Record<ConnectionState, string> = {
+  connecting: 'connecting…',
+  open: '',
+  reconnecting: 'reconnecting…',
+  failed: 'offline',
+};
+
 // Type guard for checking if performance.memory is available
 function hasMemoryApi(perf: Performance): perf is PerformanceWithMemory {
   return 'memory' in perf && (perf as PerformanceWithMemory).memory !== undefined;
@@ -26,6 +51,11 @@ export class StatusPanel {
   private apiService: GeopsApiService | null = null;
   private updateCount: number = 0;
   private blinkTimeout: number | null = null;
+  private connectionState: ConnectionState = 'connecting';
+  private cancelledVisible = true;
+  private onCancelledVisibilityCallback: CancelledVisibilityCallback | null = null;
+  private onPinRegionCallback: RegionCallback | null = null;
+  private onClearRegionsCallback: RegionCallback | null = null;
 
   constructor(containerId: string) {
     const container = document.getElementById(containerId);
@@ -35,17 +65,137 @@ export class StatusPanel {
     this.container = container;
 
     this.render();
+    this.setupCancelledToggle();
+    this.setupRegionActions();
     this.startClock();
   }
 
+  // Pin the current view as extra tracker region, or unpin all of them
+  private setupRegionActions() {
+    document.getElementById('region-pin')?.addEventListener('click', () => {
+      if (this.onPinRegionCallback) this.onPinRegionCallback();
+    });
+    document.getElementById('region-clear')?.addEventListener('click', () => {
+      if (this.onClearRegionsCallback) this.onClearRegionsCallback();
+    });
+  }
+
+  // Show how many regions are pinned (the unpin action is hidden without any)
+  setPinnedRegionCount(count: number) {
+    document.getElementById('pinned-regions')?.toggleAttribute('hidden', count === 0);
+    const countEl = document.getElementById('pinned-region-count');
+    if (countEl) countEl.textContent = String(count);
+  }
+
+  // Called when the user pins the current view
+  onPinRegion(callback: RegionCallback) {
+    this.onPinRegionCallback = callback;
+  }
+
+  // Called when the user unpins all regions
+  onClearRegions(callback: RegionCallback) {
+    this.onClearRegionsCallback = callback;
+  }
+
+  // Show/hide action for cancelled vehicles; the layers apply it via onCancelledVisibilityChange
+  private setupCancelledToggle() {
+    document.getElementById('cancelled-toggle')?.addEventListener('click', () => {
+      this.cancelledVisible = !this.cancelledVisible;
+      this.updateCancelledToggle();
+      if (this.onCancelledVisibilityCallback) {
+        this.onCancelledVisibilityCallback(this.cancelledVisible);
+      }
+    });
+  }
+
+  private updateCancelledToggle() {
+    const toggleEl = document.getElementById('cancelled-toggle');
+    if (toggleEl) {
+      toggleEl.setAttribute('icon', this.cancelledVisible ? 'view-visible' : 'view-hide');
+      toggleEl.setAttribute('text', this.cancelledVisible ? 'Hide cancelled' : 'Show cancelled');
+    }
+  }
+
+  // Called with the new visibility when cancelled vehicles are shown or hidden
+  onCancelledVisibilityChange(callback: CancelledVisibilityCallback) {
+    this.onCancelledVisibilityCallback = callback;
+  }
+
   setApiService(apiService: GeopsApiService) {
     this.apiService = apiService;
+    this.setupTimeControls();
+    this.updateClock();
+  }
+
+  // Slider sets the simulation clock offset, play/pause freezes it, reset returns to real time
+  private setupTimeControls() {
+    const slider = document.getElementById('time-offset');
+    const playButton = document.getElementById('time-play');
+    const resetButton = document.getElementById('time-reset');
+    document.getElementById('time-controls')?.removeAttribute('hidden');
+
+    slider?.addEventListener('calciteSliderInput', (e) => {
+      const target = e.target as HTMLElement & { value: number };
+      this.apiService?.getSimulationClock().setOffset(target.value * 60000);
+      this.updateClock();
+    });
+
+    playButton?.addEventListener('click', () => {
+      const clock = this.apiService?.getSimulationClock();
+      if (!clock) return;
+      if (clock.isPaused()) {
+        clock.resume();
+      } else {
+        clock.pause();
+      }
+      this.updateClock();
+    });
+
+    resetButton?.addEventListener('click', () => {
+      this.apiService?.getSimulationClock().reset();
+      this.updateClock();
+    });
+  }
+
+  // Reflect the simulation clock state in the time controls
+  private updateTimeControls() {
+    if (!this.apiService) return;
+
+    const clock = this.apiService.getSimulationClock();
+    // A session replay brings its own clock; the controls only apply to live data
+    const enabled = this.apiService.getClock() === clock;
+
+    for (const id of ['time-offset', 'time-play', 'time-reset']) {
+      document.getElementById(id)?.toggleAttribute('disabled', !enabled);
+    }
+
+    const playButton = document.getElementById('time-play');
+    if (playButton) {
+      playButton.setAttribute('icon', clock.isPaused() ? 'play' : 'pause');
+      playButton.setAttribute('text', clock.isPaused() ? 'Play' : 'Pause');
+    }
+
+    // Follow the clock on every update (offset changes, reset, and the drift while paused), not only on input
+    const minutes = Math.round(clock.getOffset() / 60000);
+    const slider = document.getElementById('time-offset') as (HTMLElement & { value: number }) | null;
+    if (slider) {
+      slider.value = Math.min(
+        Math.max(minutes, TIME_CONTROL_CONFIG.MIN_OFFSET_MINUTES),
+        TIME_CONTROL_CONFIG.MAX_OFFSET_MINUTES,
+      );
+    }
+
+    const offsetEl = document.getElementById('time-offset-label');
+    if (offsetEl) {
+      offsetEl.textContent = clock.isRealTime() ? 'now' : minutes > 0 ? `+${minutes} min` : `${minutes} min`;
+    }
   }
 
   // Update extent size and detail level (called from main.ts when view extent changes)
-  setExtentSize(km2: number, detailLevel: string) {
+  setExtentSize(km2: number, detailLevel: string, zoomLevel: number) {
     const extentEl = document.getElementById('stats-extent');
     const scaleEl = document.getElementById('stats-scale');
+    const zoomEl = document.getElementById('stats-zoom');
     if (extentEl) {
       // Format with apostrophe as thousands separator (Swiss style)
       extentEl.textContent = Math.round(km2)
@@ -55,6 +205,29 @@ export class StatusPanel {
     if (scaleEl) {
       scaleEl.textContent = detailLevel;
     }
+    if (zoomEl) {
+      zoomEl.textContent = String(zoomLevel);
+    }
+  }
+
+  // Show tracker connection state next to the LIVE blink
+  setConnectionState(state: ConnectionState, reason?: string) {
+    this.connectionState = state;
+
+    const blinkEl = document.getElementById('live-blink');
+    if (blinkEl) {
+      blinkEl.dataset.state = state;
+      if (state !== 'open') {
+        blinkEl.classList.remove('active');
+      }
+    }
+
+    const stateEl = document.getElementById('connection-state');
+    if (stateEl) {
+      stateEl.textContent = CONNECTION_LABELS[state];
+      stateEl.dataset.state = state;
+      stateEl.title = reason || '';
+    }
   }
 
   // Called when new data arrives - triggers blink and increments counter
@@ -67,9 +240,9 @@ export class StatusPanel {
       countEl.textContent = this.updateCount.toLocaleString();
     }
 
-    // Trigger blink
+    // Trigger blink (only while connected, the dot shows the connection state otherwise)
     const blinkEl = document.getElementById('live-blink');
-    if (blinkEl) {
+    if (blinkEl && this.connectionState === 'open') {
       blinkEl.classList.add('active');
 
       // Clear previous timeout
@@ -95,22 +268,39 @@ export class StatusPanel {
   private render() {
     this.container.innerHTML = `
       <div class="status-panel">
-        <div class="panel-row panel-clock">
+        <div class="panel-row panel-clock" id="panel-clock">
           <span class="panel-time" id="panel-clock-time"></span>
           <span class="panel-date" id="panel-clock-date"></span>
         </div>
+        <div class="panel-row panel-time-controls" id="time-controls" hidden>
+          <calcite-action id="time-play" icon="pause" text="Pause" scale="s"></calcite-action>
+          <calcite-slider id="time-offset" scale="s" min="${TIME_CONTROL_CONFIG.MIN_OFFSET_MINUTES}" max="${TIME_CONTROL_CONFIG.MAX_OFFSET_MINUTES}" step="1" value="0" label-text="Time offset in minutes"></calcite-slider>
+          <span class="time-offset-label" id="time-offset-label">now</span>
+          <calcite-action id="time-reset" icon="reset" text="Back to real time" scale="s"></calcite-action>
+        </div>
         <div class="panel-row panel-stats">
-          <span class="panel-stat">${SBB_TRAIN_ICON}<span id="stats-rail">0</span></span>
-          <span class="panel-stat">${SBB_TRAM_ICON}<span id="stats-tram">0</span></span>
-          <span class="panel-stat">${SBB_BUS_ICON}<span id="stats-bus">0</span></span>
+          ${COUNT_BUCKET_KEYS.map(
+            (bucket) =>
+              `<span class="panel-stat" title="${COUNT_BUCKETS[bucket].label}">${COUNT_BUCKETS[bucket].icon}<span id="stats-${bucket}">0</span></span>`,
+          ).join('')}
         </div>
         <div class="panel-row panel-status">
-          <span class="live-blink" id="live-blink"></span>
+          <span class="live-blink" id="live-blink" data-state="connecting"></span>
           <span class="live-label">LIVE</span>
-          <span class="panel-details">(<span id="live-update-count">0</span> / <span id="fps-value">0</span> FPS / <span id="stats-memory">-</span> MB)</span>
+          <span class="connection-state" id="connection-state" data-state="connecting">connecting…</span>
+          <span class="panel-details">(<span id="live-update-count">0</span> / <span id="fps-value">0</span> FPS / <span id="stats-memory">-</span> MB / <span id="stats-stale">0</span> stale / <span id="stats-invalid">0</span> invalid)</span>
+        </div>
+        <div class="panel-row panel-cancelled">
+          <span>Cancelled: <span id="stats-cancelled">0</span></span>
+          <calcite-action id="cancelled-toggle" icon="view-visible" text="Hide cancelled" scale="s"></calcite-action>
         </div>
         <div class="panel-row panel-area">
-          <span>Area: <span id="stats-extent">0</span> km² (<span id="stats-scale">detailed</span>)</span>
+          <span>Area: <span id="stats-extent">0</span> km² (<span id="stats-scale">detailed</span>, level <span id="stats-zoom">9</span>)</span>
+          <calcite-action id="region-pin" icon="pin-plus" text="Pin this area" scale="s"></calcite-action>
+          <span class="pinned-regions" id="pinned-regions" hidden>
+            <span id="pinned-region-count">0</span> pinned
+            <calcite-action id="region-clear" icon="x" text="Unpin all areas" scale="s"></calcite-action>
+          </span>
         </div>
         <div class="panel-row panel-logo">
           <a href="https://developer.geops.io/apis/realtime" target="_blank" rel="noopener noreferrer">
@@ -133,7 +323,12 @@ export class StatusPanel {
   }
 
   private updateClock() {
-    const now = new Date();
+    // Show the interpolation clock (simulation or replay) when it differs from real time
+    const clockNow = this.apiService ? this.apiService.getClock().now() : Date.now();
+    const simulated = Math.abs(clockNow - Date.now()) >= 1000;
+    const now = new Date(clockNow);
+    document.getElementById('panel-clock')?.classList.toggle('simulated', simulated);
+    this.updateTimeControls();
 
     // Format date using Intl API: "Wednesday, 11.12.2024"
     const weekday = new Intl.DateTimeFormat('en-US', { weekday: 'long' }).format(now);
@@ -166,13 +361,49 @@ export class StatusPanel {
 
     const counts = this.apiService.getVehicleCounts();
 
-    const railEl = document.getElementById('stats-rail');
-    const tramEl = document.getElementById('stats-tram');
-    const busEl = document.getElementById('stats-bus');
+    for (const bucket of COUNT_BUCKET_KEYS) {
+      const countEl = document.getElementById(`stats-${bucket}`);
+      if (countEl) countEl.textContent = counts[bucket].toLocaleString();
+    }
+
+    // Vehicles without recent updates (faded on the map), not included above
+    const staleEl = document.getElementById('stats-stale');
+    if (staleEl) {
+      staleEl.textContent = counts.stale.total.toLocaleString();
+      staleEl.title = COUNT_BUCKET_KEYS.map((bucket) => `${COUNT_BUCKETS[bucket].label}: ${counts.stale[bucket]}`).join(
+        ', ',
+      );
+    }
+
+    // Cancelled journeys, counted in the buckets above as well (and whether shown or hidden)
+    const cancelledEl = document.getElementById('stats-cancelled');
+    if (cancelledEl) cancelledEl.textContent = counts.cancelled.toLocaleString();
+
+    this.updateMessageStats();
+  }
 
-    if (railEl) railEl.textContent = counts.rail.toLocaleString();
-    if (tramEl) tramEl.textContent = counts.tram.toLocaleString();
-    if (busEl) busEl.textContent = counts.bus.toLocaleString();
+  // Rejected message count, with per-category breakdown, last reason and warnings as tooltip
+  private updateMessageStats() {
+    const invalidEl = document.getElementById('stats-invalid');
+    if (!invalidEl || !this.apiService) return;
+
+    const stats = this.apiService.getMessageStats();
+    const rejected = Object.values(stats.rejected).reduce((sum, count) => sum + count, 0);
+    invalidEl.textContent = rejected.toLocaleString();
+
+    const breakdown = Object.entries(stats.rejected)
+      .map(([category, count]) => `${category}: ${count}`)
+      .join(', ');
+    const lastRejection = stats.recentRejections[stats.recentRejections.length - 1];
+    const lines = [lastRejection ? `${breakdown}\nLast: ${lastRejection.reason}` : breakdown];
+
+    // Accepted with normalized values (e.g. an unknown vehicle state)
+    const warnings = Object.values(stats.warnings).reduce((sum, count) => sum + count, 0);
+    const lastWarning = stats.recentWarnings[stats.recentWarnings.length - 1];
+    if (lastWarning) {
+      lines.push(`Warnings: ${warnings} (last: ${lastWarning.reason})`);
+    }
+    invalidEl.title = lines.join('\n');
   }
 
   private updateMemory() {
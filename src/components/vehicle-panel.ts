@@ -0,0 +1,276 @@
+// Import Calcite components
+import '@esri/calcite-components/dist/components/calcite-panel';
+import '@esri/calcite-components/dist/components/calcite-action';
+import '@esri/calcite-components/dist/components/calcite-list';
+import '@esri/calcite-components/dist/components/calcite-list-item';
+
+import { getTransportMode, VEHICLE_STATE_LABELS } from '../types/geops';
+
+import { escapeHtml, formatDelayMinutes, formatTime } from './html';
+
+import type { Disposer } from '../services/event-emitter';
+import type { GeopsApiService } from '../services/geops-api';
+import type { DeleteReason, Journey, JourneyStop, Vehicle } from '../types/geops';
+
+type CloseCallback = () => void;
+type FollowCallback = (_vehicleId: string) => void;
+
+// Vehicle panel configuration
+const VEHICLE_PANEL_CONFIG = {
+  MAX_STOPS: 6,
+  // Re-render the stops periodically so passed ones drop off between stop sequence updates
+  REFRESH_INTERVAL: 15000,
+  // Removals that end the selection; a vehicle that is filtered out or left the subscribed area
+  // stays selected (shown as out of view) until it comes back
+  CLOSE_REASONS: ['deleted', 'missing', 'expired', 'cleared'] as DeleteReason[],
+};
+
+function formatDelay(delay: number | undefined): string {
+  if (delay === undefined) return 'No realtime data';
+  return Math.round(delay / 60000) === 0 ? 'On time' : formatDelayMinutes(delay);
+}
+
+// Time the vehicle leaves (or, at the last stop, reaches) a stop
+function getStopTime(stop: JourneyStop): number | undefined {
+  return stop.realtimeDeparture ?? stop.scheduledDeparture ?? stop.realtimeArrival ?? stop.scheduledArrival;
+}
+
+// Shown values of a vehicle; the panel only re-renders when they change, not on every position
+function getVehicleSignature(vehicle: Vehicle): string {
+  const delayMinutes = vehicle.delay !== undefined ? Math.round(vehicle.delay / 60000) : '';
+  return [vehicle.lineName, vehicle.destination, vehicle.type, delayMinutes, vehicle.state, vehicle.stale].join('|');
+}
+
+// Docked details of the clicked vehicle: line, destination, mode, delay, state and next stops,
+// updated live until the panel is closed or the tracker drops the vehicle
+export class VehiclePanel {
+  private container: HTMLElement;
+  private apiService: GeopsApiService;
+  private vehicleId: string | null = null;
+  private vehicle: Vehicle | null = null;
+  private signature = '';
+  private outOfView = false;
+  private journey: Journey | null = null;
+  private onCloseCallback: CloseCallback | null = null;
+  private onFollowCallback: FollowCallback | null = null;
+  private disposers: Disposer[] = [];
+  private intervalId: number | null = null;
+
+  constructor(containerId: string, apiService: GeopsApiService) {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container element #${containerId} not found`);
+    }
+    this.container = container;
+    this.apiService = apiService;
+
+    this.disposers.push(
+      this.apiService.on('vehicles', (vehicles) => {
+        if (!this.vehicleId) return;
+        const vehicle = vehicles.find((candidate) => candidate.id === this.vehicleId);
+        if (vehicle) {
+          this.outOfView = false;
+          this.updateVehicle(vehicle);
+        }
+      }),
+      this.apiService.on('journey', (journey) => {
+        if (journey && journey.trainId !== this.vehicleId) return;
+        this.journey = journey;
+        this.renderStops();
+      }),
+      this.apiService.on('delete', (vehicleId, reason) => {
+        if (vehicleId !== this.vehicleId) return;
+        if (VEHICLE_PANEL_CONFIG.CLOSE_REASONS.includes(reason)) {
+          this.close();
+        } else {
+          this.outOfView = true;
+          this.signature = '';
+          this.renderDetails();
+        }
+      }),
+    );
+
+    this.render();
+    this.container.setAttribute('collapsed', '');
+  }
+
+  private render() {
+    this.container.innerHTML = `
+      <calcite-panel class="vehicle-panel" heading="Vehicle" closable scale="s">
+        <calcite-action slot="header-actions-end" id="vehicle-follow" icon="gps-on" text="Follow" scale="s"></calcite-action>
+        <dl class="vehicle-details" id="vehicle-details"></dl>
+        <div class="vehicle-stops-heading">Next stops</div>
+        <calcite-list id="vehicle-stops" label="Next stops" scale="s"></calcite-list>
+      </calcite-panel>
+    `;
+
+    const panelEl = this.container.querySelector('calcite-panel');
+    panelEl?.addEventListener('calcitePanelClose', () => this.close());
+    this.container.querySelector('#vehicle-follow')?.addEventListener('click', () => {
+      if (this.vehicleId && this.onFollowCallback) {
+        this.onFollowCallback(this.vehicleId);
+      }
+    });
+  }
+
+  // Select a vehicle: open the panel and subscribe to its stop sequence
+  show(vehicleId: string) {
+    this.vehicleId = vehicleId;
+    this.vehicle = null;
+    this.signature = '';
+    this.outOfView = false;
+    this.journey = null;
+    this.apiService.selectJourney(vehicleId);
+
+    this.container.removeAttribute('collapsed');
+    // The close button leaves the panel closed; reopen it
+    this.container.querySelector('calcite-panel')?.removeAttribute('closed');
+
+    const vehicle = this.apiService.getVehicles().find((candidate) => candidate.id === vehicleId);
+    if (vehicle) {
+      this.updateVehicle(vehicle);
+    } else {
+      this.renderDetails();
+    }
+    this.renderStops();
+
+    if (!this.intervalId) {
+      this.intervalId = window.setInterval(() => this.renderStops(), VEHICLE_PANEL_CONFIG.REFRESH_INTERVAL);
+    }
+  }
+
+  // Clear the selection without notifying (e.g. replaced by another selection)
+  hide() {
+    if (this.vehicleId) {
+      this.apiService.selectJourney(null);
+    }
+    this.vehicleId = null;
+    this.vehicle = null;
+    this.journey = null;
+    this.container.setAttribute('collapsed', '');
+    this.setFollowing(false);
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  private close() {
+    if (!this.vehicleId) return;
+    this.hide();
+    if (this.onCloseCallback) {
+      this.onCloseCallback();
+    }
+  }
+
+  getVehicleId(): string | null {
+    return this.vehicleId;
+  }
+
+  // Mark the follow action while the camera follows the selected vehicle
+  setFollowing(following: boolean) {
+    this.container.querySelector('#vehicle-follow')?.toggleAttribute('active', following);
+  }
+
+  private updateVehicle(vehicle: Vehicle) {
+    this.vehicle = vehicle;
+    const signature = getVehicleSignature(vehicle);
+    if (signature !== this.signature) {
+      this.signature = signature;
+      this.renderDetails();
+    }
+  }
+
+  private renderDetails() {
+    const panelEl = this.container.querySelector('calcite-panel');
+    const detailsEl = this.container.querySelector('#vehicle-details');
+    if (!panelEl || !detailsEl || !this.vehicleId) return;
+
+    const vehicle = this.vehicle;
+    panelEl.setAttribute('heading', vehicle?.lineName || this.vehicleId);
+    panelEl.setAttribute('description', vehicle?.destination ? `to ${vehicle.destination}` : '');
+
+    if (!vehicle) {
+      detailsEl.innerHTML = `<dt>Vehicle ID</dt><dd>${escapeHtml(this.vehicleId)}</dd>`;
+      return;
+    }
+
+    const mode = getTransportMode(vehicle.type)?.label ?? vehicle.type ?? 'Unknown';
+    const state = vehicle.state ? VEHICLE_STATE_LABELS[vehicle.state] : 'Unknown';
+    const rows: [string, string][] = [
+      ['Line', vehicle.lineName || '?'],
+      ['Destination', vehicle.destination || '–'],
+      ['Mode', mode],
+      ['Delay', formatDelay(vehicle.delay)],
+      ['State', this.outOfView ? `${state} (out of view)` : vehicle.stale ? `${state} (no recent update)` : state],
+      ['Vehicle ID', vehicle.id],
+    ];
+
+    detailsEl.innerHTML = rows.map(([term, value]) => `<dt>${term}</dt><dd>${escapeHtml(value)}</dd>`).join('');
+    detailsEl.classList.toggle('vehicle-cancelled', vehicle.state === 'JOURNEY_CANCELLED');
+  }
+
+  private renderStops() {
+    const listEl = this.container.querySelector('#vehicle-stops');
+    if (!listEl || !this.vehicleId) return;
+
+    if (!this.journey) {
+      listEl.innerHTML = `<calcite-list-item label="No stop data" non-interactive></calcite-list-item>`;
+      return;
+    }
+
+    const now = this.apiService.getClock().now();
+    const upcoming = this.journey.stops
+      .filter((stop) => {
+        const time = getStopTime(stop);
+        return time === undefined || time >= now;
+      })
+      .slice(0, VEHICLE_PANEL_CONFIG.MAX_STOPS);
+
+    if (upcoming.length === 0) {
+      listEl.innerHTML = `<calcite-list-item label="No further stops" non-interactive></calcite-list-item>`;
+      return;
+    }
+
+    listEl.innerHTML = upcoming
+      .map((stop) => {
+        const time = getStopTime(stop);
+        const delay = stop.departureDelay ?? stop.arrivalDelay;
+        const details = [
+          stop.platform ? `Pl. ${escapeHtml(stop.platform)}` : '',
+          stop.cancelled ? 'Cancelled' : delay !== undefined && delay >= 60000 ? formatDelay(delay) : '',
+        ]
+          .filter(Boolean)
+          .join(' · ');
+
+        return `
+        <calcite-list-item
+          label="${escapeHtml(stop.name)}"
+          description="${details}"
+          non-interactive
+          ${stop.cancelled ? 'class="departure-cancelled"' : ''}
+        >
+          <span slot="content-end" class="departure-time">${time !== undefined ? formatTime(time) : ''}</span>
+        </calcite-list-item>
+      `;
+      })
+      .join('');
+  }
+
+  // Called when the user closes the panel or the selected vehicle is deleted
+  onClose(callback: CloseCallback) {
+    this.onCloseCallback = callback;
+  }
+
+  // Called with the vehicle id when the follow action is clicked
+  onFollow(callback: FollowCallback) {
+    this.onFollowCallback = callback;
+  }
+
+  destroy() {
+    this.hide();
+    this.disposers.forEach((dispose) => dispose());
+    this.disposers = [];
+  }
+}
@@ -3,7 +3,12 @@ import '@esri/calcite-components/dist/components/calcite-card';
 import '@esri/calcite-components/dist/components/calcite-chip';
 
 // Import SBB icons
-import { SBB_BUS_ICON, SBB_TRAM_ICON, SBB_TRAIN_ICON } from '../icons/sbb-icons';
+import { SBB_BUS_ICON } from '../icons/sbb-icons';
+import { getTransportMode } from '../types/geops';
+
+import { escapeHtml } from './html';
+
+import type { VehicleState } from '../types/geops';
 
 export interface VehicleInfo {
   id: string;
@@ -11,19 +16,11 @@ export interface VehicleInfo {
   destination?: string;
   delay?: number;
   type?: string;
+  state?: VehicleState;
+  stale?: boolean; // no recent update, position is estimated
 }
 
-// Vehicle type configuration - maps type to icon and display name
-const VEHICLE_TYPES: Record<string, { icon: string; name: string }> = {
-  rail: { icon: SBB_TRAIN_ICON, name: 'Train' },
-  tram: { icon: SBB_TRAM_ICON, name: 'Tram' },
-  bus: { icon: SBB_BUS_ICON, name: 'Bus' },
-  ferry: { icon: SBB_BUS_ICON, name: 'Ferry' },
-  gondola: { icon: SBB_BUS_ICON, name: 'Gondola' },
-  funicular: { icon: SBB_BUS_ICON, name: 'Funicular' },
-  subway: { icon: SBB_TRAIN_ICON, name: 'Subway' },
-};
-
+// Fallback for vehicle types missing from the mode registry
 const DEFAULT_VEHICLE = { icon: SBB_BUS_ICON, name: 'Vehicle' };
 
 // Delay thresholds in milliseconds
@@ -32,13 +29,6 @@ const DELAY_THRESHOLDS = {
   DANGER: 600000, // 10 minutes
 };
 
-// Escape HTML special characters to prevent XSS
-function escapeHtml(text: string): string {
-  const div = document.createElement('div');
-  div.textContent = text;
-  return div.innerHTML;
-}
-
 export class VehiclePopup {
   private container: HTMLElement;
 
@@ -62,6 +52,8 @@ export class VehiclePopup {
     const typeIconSvg = this.getSbbIcon(vehicle.type);
     const typeName = this.getTypeName(vehicle.type);
     const escapedLineName = escapeHtml(vehicle.lineName || 'Unknown Line');
+    const subtitle = vehicle.destination ? `${typeName} to ${escapeHtml(vehicle.destination)}` : typeName;
+    const cancelled = vehicle.state === 'JOURNEY_CANCELLED';
 
     this.container.innerHTML = `
       <calcite-card>
@@ -69,10 +61,11 @@ export class VehiclePopup {
           <span style="display: inline-flex; width: 20px; height: 20px;">${typeIconSvg}</span>
           ${escapedLineName}
         </span>
-        <span slot="subtitle">${typeName}</span>
+        <span slot="subtitle">${subtitle}</span>
         <div slot="footer-start">
-          ${delayText ? `<calcite-chip scale="s" appearance="outline-fill" kind="${delayColor}">${delayText}</calcite-chip>` : '<calcite-chip scale="s" appearance="outline-fill" kind="brand">On time</calcite-chip>'}
+          ${cancelled ? '<calcite-chip scale="s" appearance="outline-fill" kind="danger" icon="x-circle">Cancelled</calcite-chip>' : delayText ? `<calcite-chip scale="s" appearance="outline-fill" kind="${delayColor}">${delayText}</calcite-chip>` : '<calcite-chip scale="s" appearance="outline-fill" kind="brand">On time</calcite-chip>'}
         </div>
+        ${vehicle.stale ? '<div slot="footer-end"><calcite-chip scale="s" appearance="outline" kind="neutral" icon="clock">No recent update</calcite-chip></div>' : ''}
       </calcite-card>
     `;
 
@@ -134,7 +127,8 @@ export class VehiclePopup {
   }
 
   private getVehicleInfo(type?: string): { icon: string; name: string } {
-    return (type && VEHICLE_TYPES[type]) || DEFAULT_VEHICLE;
+    const mode = getTransportMode(type);
+    return mode ? { icon: mode.icon, name: mode.label } : DEFAULT_VEHICLE;
   }
 
   private getSbbIcon(type?: string): string {
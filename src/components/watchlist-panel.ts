@@ -0,0 +1,238 @@
+// Import Calcite components
+import '@esri/calcite-components/dist/components/calcite-panel';
+import '@esri/calcite-components/dist/components/calcite-action';
+import '@esri/calcite-components/dist/components/calcite-alert';
+import '@esri/calcite-components/dist/components/calcite-button';
+import '@esri/calcite-components/dist/components/calcite-checkbox';
+import '@esri/calcite-components/dist/components/calcite-label';
+import '@esri/calcite-components/dist/components/calcite-input-text';
+import '@esri/calcite-components/dist/components/calcite-input-number';
+import '@esri/calcite-components/dist/components/calcite-list';
+import '@esri/calcite-components/dist/components/calcite-list-item';
+import '@esri/calcite-components/dist/components/calcite-segmented-control';
+import '@esri/calcite-components/dist/components/calcite-segmented-control-item';
+
+import { escapeHtml } from './html';
+
+import type { WatchAlert, WatchlistEntry, WatchRule, Watchlist, WatchTargetKind } from '../services/watchlist';
+
+type VehicleSelectCallback = (_vehicleId: string) => void;
+
+// Watchlist panel configuration
+const WATCHLIST_PANEL_CONFIG = {
+  // Older toasts are dropped beyond this (e.g. a watched line delayed as a whole)
+  MAX_ALERTS: 5,
+};
+
+// Toast kind, title and icon per rule
+const RULE_ALERTS: Record<WatchRule, { kind: 'warning' | 'danger' | 'info'; title: string; icon: string }> = {
+  delay: { kind: 'warning', title: 'Delay', icon: 'clock' },
+  cancelled: { kind: 'danger', title: 'Cancelled', icon: 'x-circle' },
+  disappeared: { kind: 'info', title: 'No longer reported', icon: 'question' },
+};
+
+function describeRules(entry: WatchlistEntry): string {
+  const rules: string[] = [];
+  if (entry.rules.delayMinutes !== undefined) rules.push(`delay > ${entry.rules.delayMinutes} min`);
+  if (entry.rules.cancelled) rules.push('cancelled');
+  if (entry.rules.disappeared) rules.push('disappears');
+  return rules.length > 0 ? rules.join(', ') : 'no alerts';
+}
+
+// Browser notifications exist and are not blocked
+function notificationsSupported(): boolean {
+  return 'Notification' in window && Notification.permission !== 'denied';
+}
+
+// Collapsible editor for the watchlist, and the toasts (and browser notifications) of its alerts
+export class WatchlistPanel {
+  private container: HTMLElement;
+  private watchlist: Watchlist;
+  private kind: WatchTargetKind = 'train';
+  private onSelectVehicleCallback: VehicleSelectCallback | null = null;
+
+  constructor(containerId: string, watchlist: Watchlist) {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container element #${containerId} not found`);
+    }
+    this.container = container;
+    this.watchlist = watchlist;
+
+    this.render();
+    this.setupEventListeners();
+    this.renderEntries();
+  }
+
+  private render() {
+    this.container.innerHTML = `
+      <div class="watchlist-panel">
+        <calcite-panel heading="Watchlist" collapsible collapsed scale="s">
+          <div class="watchlist-fields">
+            <calcite-segmented-control id="watchlist-kind" scale="s" width="full">
+              <calcite-segmented-control-item value="train" checked>Train</calcite-segmented-control-item>
+              <calcite-segmented-control-item value="line">Line</calcite-segmented-control-item>
+            </calcite-segmented-control>
+            <calcite-input-text id="watchlist-value" scale="s" placeholder="train_id"></calcite-input-text>
+            <calcite-label scale="s">
+              Delay exceeds (min)
+              <calcite-input-number id="watchlist-delay" scale="s" min="0" step="1" value="5"></calcite-input-number>
+            </calcite-label>
+            <calcite-label scale="s" layout="inline">
+              <calcite-checkbox id="watchlist-cancelled" scale="s" checked></calcite-checkbox>
+              Cancelled
+            </calcite-label>
+            <calcite-label scale="s" layout="inline">
+              <calcite-checkbox id="watchlist-disappeared" scale="s" checked></calcite-checkbox>
+              Disappears
+            </calcite-label>
+            <calcite-button id="watchlist-add" scale="s" width="full" icon-start="plus">Watch</calcite-button>
+            <calcite-label scale="s" layout="inline" ${notificationsSupported() ? '' : 'hidden'}>
+              <calcite-checkbox id="watchlist-notifications" scale="s" ${
+                this.watchlist.getNotifications() ? 'checked' : ''
+              }></calcite-checkbox>
+              Browser notifications
+            </calcite-label>
+          </div>
+          <calcite-list id="watchlist-entries" label="Watchlist" scale="s"></calcite-list>
+        </calcite-panel>
+      </div>
+      <div class="watchlist-alerts"></div>
+    `;
+  }
+
+  private setupEventListeners() {
+    this.container.querySelector('#watchlist-kind')?.addEventListener('calciteSegmentedControlChange', (event) => {
+      this.kind = (event.target as HTMLElement & { value: WatchTargetKind }).value;
+      this.container
+        .querySelector('#watchlist-value')
+        ?.setAttribute('placeholder', this.kind === 'train' ? 'train_id' : 'Line, e.g. IC 5');
+    });
+
+    this.container.querySelector<HTMLElement>('#watchlist-value')?.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter') this.addEntry();
+    });
+    this.container.querySelector('#watchlist-add')?.addEventListener('click', () => this.addEntry());
+
+    this.container.querySelector('#watchlist-notifications')?.addEventListener('calciteCheckboxChange', (event) => {
+      const checkbox = event.target as HTMLElement & { checked: boolean };
+      if (!checkbox.checked) {
+        this.watchlist.setNotifications(false);
+        return;
+      }
+      // Ask for permission on the user's click; browsers ignore requests without one
+      void Notification.requestPermission().then((permission) => {
+        checkbox.checked = permission === 'granted';
+        this.watchlist.setNotifications(checkbox.checked);
+      });
+    });
+  }
+
+  private addEntry() {
+    const valueEl = this.container.querySelector<HTMLElement & { value: string }>('#watchlist-value');
+    const delay = this.getInputValue('#watchlist-delay');
+    const delayMinutes = Number(delay);
+
+    const entry = this.watchlist.add(this.kind, valueEl?.value ?? '', {
+      delayMinutes: delay !== '' && Number.isFinite(delayMinutes) && delayMinutes >= 0 ? delayMinutes : undefined,
+      cancelled: this.isChecked('#watchlist-cancelled'),
+      disappeared: this.isChecked('#watchlist-disappeared'),
+    });
+    if (entry && valueEl) {
+      valueEl.value = '';
+    }
+    this.renderEntries();
+  }
+
+  private getInputValue(selector: string): string {
+    const input = this.container.querySelector<HTMLElement & { value: string }>(selector);
+    return input?.value ?? '';
+  }
+
+  private isChecked(selector: string): boolean {
+    const checkbox = this.container.querySelector<HTMLElement & { checked: boolean }>(selector);
+    return checkbox?.checked ?? false;
+  }
+
+  private renderEntries() {
+    const size = this.watchlist.size;
+    this.container
+      .querySelector('calcite-panel')
+      ?.setAttribute('heading', size > 0 ? `Watchlist (${size})` : 'Watchlist');
+
+    const listEl = this.container.querySelector('#watchlist-entries');
+    if (!listEl) return;
+
+    listEl.innerHTML = this.watchlist
+      .getEntries()
+      .map(
+        (entry) => `
+        <calcite-list-item
+          label="${escapeHtml(entry.value)}"
+          description="${entry.kind === 'train' ? 'Train' : 'Line'}: ${escapeHtml(describeRules(entry))}"
+          data-id="${escapeHtml(entry.id)}"
+          non-interactive
+        >
+          <calcite-action slot="actions-end" icon="trash" text="Remove" scale="s" data-id="${escapeHtml(
+            entry.id,
+          )}"></calcite-action>
+        </calcite-list-item>
+      `,
+      )
+      .join('');
+
+    listEl.querySelectorAll('calcite-action[data-id]').forEach((action) => {
+      action.addEventListener('click', () => {
+        this.watchlist.remove(action.getAttribute('data-id') ?? '');
+        this.renderEntries();
+      });
+    });
+  }
+
+  // Show an alert as toast, and as browser notification when enabled and permitted
+  showAlert(alert: WatchAlert) {
+    const { kind, title, icon } = RULE_ALERTS[alert.rule];
+
+    const alertsEl = this.container.querySelector('.watchlist-alerts');
+    if (alertsEl) {
+      while (alertsEl.children.length >= WATCHLIST_PANEL_CONFIG.MAX_ALERTS) {
+        alertsEl.firstElementChild?.remove();
+      }
+
+      const alertEl = document.createElement('calcite-alert');
+      alertEl.setAttribute('kind', kind);
+      alertEl.setAttribute('icon', icon);
+      alertEl.setAttribute('label', title);
+      alertEl.setAttribute('scale', 's');
+      alertEl.setAttribute('auto-close', '');
+      alertEl.setAttribute('auto-close-duration', 'slow');
+      alertEl.innerHTML = `
+        <div slot="title">${escapeHtml(title)}</div>
+        <div slot="message">${escapeHtml(alert.message)}</div>
+        <calcite-action slot="link" text="Show on map" text-enabled scale="s"></calcite-action>
+      `;
+      alertEl.querySelector('calcite-action')?.addEventListener('click', () => {
+        if (this.onSelectVehicleCallback) {
+          this.onSelectVehicleCallback(alert.vehicleId);
+        }
+      });
+      alertEl.addEventListener('calciteAlertClose', () => alertEl.remove());
+      alertsEl.appendChild(alertEl);
+      alertEl.setAttribute('open', '');
+    }
+
+    if (this.watchlist.getNotifications() && 'Notification' in window && Notification.permission === 'granted') {
+      // Same tag per vehicle and rule, so a repeated alert replaces the previous notification
+      new Notification(title, { body: alert.message, tag: `${alert.vehicleId}:${alert.rule}` });
+    }
+  }
+
+  // Called with the vehicle id when "Show on map" of a toast is clicked
+  onSelectVehicle(callback: VehicleSelectCallback) {
+    this.onSelectVehicleCallback = callback;
+  }
+
+  destroy() {
+    this.container.querySelectorAll('calcite-alert').forEach((alertEl) => alertEl.remove());
+  }
+}
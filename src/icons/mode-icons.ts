@@ -0,0 +1,32 @@
+// Icons for the geOps modes of transport that have no SBB icon in sbb-icons.ts
+// Drawn for this project in the same 24x24 line style as the SBB icons
+
+// Metro icon (24x24)
+export const METRO_ICON = `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" fill="none" viewBox="0 0 24 24">
+  <g stroke="currentColor" stroke-linejoin="round"><circle cx="12" cy="12" r="8.5"/><path d="M8.5 16V8l3.5 4.5L15.5 8v8"/></g>
+</svg>`;
+
+// Coach icon (24x24)
+export const COACH_ICON = `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" fill="none" viewBox="0 0 24 24">
+  <g stroke="currentColor" stroke-linejoin="round"><path d="M2.5 6.5h15l4 4.5v6h-19z"/><path d="M2.5 11h19M7 6.5V11m5-4.5V11"/><circle cx="7" cy="17.5" r="1.5" fill="white"/><circle cx="17" cy="17.5" r="1.5" fill="white"/></g>
+</svg>`;
+
+// Ship icon (24x24)
+export const SHIP_ICON = `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" fill="none" viewBox="0 0 24 24">
+  <g stroke="currentColor" stroke-linejoin="round"><path d="M3.5 15.5h17l-2.5 4h-12z"/><path d="M6.5 15.5v-4h11v4M9 11.5v-3h6v3M12 8.5v-4"/><path d="M2.5 21.5c1.5 0 1.5-.75 3-.75s1.5.75 3 .75 1.5-.75 3-.75 1.5.75 3 .75 1.5-.75 3-.75 1.5.75 3 .75"/></g>
+</svg>`;
+
+// Gondola icon (24x24)
+export const GONDOLA_ICON = `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" fill="none" viewBox="0 0 24 24">
+  <g stroke="currentColor" stroke-linejoin="round"><path d="M2.5 6.5l19-4M12 4.5v3.5"/><rect width="10" height="12" x="7" y="8" rx="3"/><path d="M7 13h10M12 8v5"/></g>
+</svg>`;
+
+// Aerial cableway icon (24x24)
+export const CABLEWAY_ICON = `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" fill="none" viewBox="0 0 24 24">
+  <g stroke="currentColor" stroke-linejoin="round"><path d="M2.5 5.5l19-3M2.5 7.5l19-3M12 5.5V9"/><path d="M5.5 9h13v11.5h-13zM5.5 14h13M9.5 9v5m5-5v5"/></g>
+</svg>`;
+
+// Funicular icon (24x24)
+export const FUNICULAR_ICON = `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" fill="none" viewBox="0 0 24 24">
+  <g stroke="currentColor" stroke-linejoin="round"><path d="M2.5 20.5l19-12"/><path d="M5.5 16.5v-5.5l13-8.2v5.5z"/><path d="M9.5 14v-5.5m5 2.3v-5.5"/></g>
+</svg>`;
@@ -0,0 +1,216 @@
+import * as projectOperator from '@arcgis/core/geometry/operators/projectOperator';
+import Point from '@arcgis/core/geometry/Point';
+import Polyline from '@arcgis/core/geometry/Polyline';
+import SpatialReference from '@arcgis/core/geometry/SpatialReference';
+import Graphic from '@arcgis/core/Graphic';
+import FeatureLayer from '@arcgis/core/layers/FeatureLayer';
+import SimpleRenderer from '@arcgis/core/renderers/SimpleRenderer';
+import ColorVariable from '@arcgis/core/renderers/visualVariables/ColorVariable';
+import OpacityVariable from '@arcgis/core/renderers/visualVariables/OpacityVariable';
+import SimpleLineSymbol from '@arcgis/core/symbols/SimpleLineSymbol';
+
+import type { HistoryPoint } from '../services/vehicle-history';
+
+// Breadcrumb trails: the positions vehicles actually passed (see services/vehicle-history.ts),
+// drawn separately from the planned path of the trajectory layer. Colored by delay, fading with age.
+
+// Which vehicles get a trail
+// - selected: only those passed to setTrailVehicles (e.g. the departure picked on the board)
+// - all: every vehicle with a history (many features, meant for small areas)
+// - off: none
+export type TrailMode = 'selected' | 'all' | 'off';
+
+const TRAIL_MODES: readonly TrailMode[] = ['selected', 'all', 'off'];
+
+// Trail configuration
+const TRAIL_CONFIG = {
+  // Consecutive points merged into one feature; each feature gets the age and delay of its newest point
+  SEGMENT_POINTS: 6,
+  WIDTH: 3,
+  // Delay colors in minutes, matching the vehicle icon colors
+  DELAY_STOPS: [
+    { value: 0, color: '#22c55e' },
+    { value: 1, color: '#22c55e' },
+    { value: 3, color: '#f59e0b' },
+    { value: 5, color: '#ef4444' },
+  ],
+  // Opacity by age as fraction of the history's maximum age
+  OPACITY_STOPS: [
+    { value: 0, opacity: 0.9 },
+    { value: 1, opacity: 0.05 },
+  ],
+};
+
+// Spatial references
+const WEB_MERCATOR = new SpatialReference({ wkid: 3857 });
+let targetSpatialReference: SpatialReference = new SpatialReference({ wkid: 3857 }); // Default to Web Mercator
+
+// Set the target spatial reference (called from main.ts when scene is ready)
+export function setTargetSpatialReference(sr: SpatialReference): void {
+  targetSpatialReference = sr;
+}
+
+let trailLayer: FeatureLayer | null = null;
+let trailObjectIds: number[] = [];
+let nextObjectId = 1;
+let trailMode: TrailMode = 'selected';
+let trailVehicleIds = new Set<string>();
+
+// Load projection operator
+let projectionLoaded = false;
+let projectionLoading: Promise<void> | null = null;
+
+async function ensureProjectionLoaded(): Promise<void> {
+  if (projectionLoaded) return;
+  if (!projectionLoading) {
+    projectionLoading = projectOperator.load().then(() => {
+      projectionLoaded = true;
+    });
+  }
+  await projectionLoading;
+}
+
+// Initialize projection at module load (fire-and-forget)
+void ensureProjectionLoaded();
+
+// Project history points from Web Mercator to target spatial reference
+function projectPointsToTarget(points: readonly HistoryPoint[]): number[][] {
+  return points.map(({ x, y }) => {
+    const sourcePoint = new Point({
+      x,
+      y,
+      spatialReference: WEB_MERCATOR,
+    });
+    const projected = projectOperator.execute(sourcePoint, targetSpatialReference) as Point;
+    return [projected.x, projected.y];
+  });
+}
+
+// Parse a trail mode (e.g. from ?trails=), null if unknown
+export function parseTrailMode(value: string | null | undefined): TrailMode | null {
+  if (!value) return null;
+  const mode = value.toLowerCase() as TrailMode;
+  return TRAIL_MODES.includes(mode) ? mode : null;
+}
+
+// Create the trail layer
+export function createTrailLayer(): FeatureLayer {
+  const layer = new FeatureLayer({
+    id: 'trails',
+    title: 'Vehicle Trails',
+    source: [], // Empty source, features added via applyEdits
+    objectIdField: 'OBJECTID',
+    geometryType: 'polyline',
+    spatialReference: targetSpatialReference,
+    fields: [
+      {
+        name: 'OBJECTID',
+        alias: 'Object ID',
+        type: 'oid',
+      },
+      {
+        name: 'vehicleId',
+        alias: 'Vehicle ID',
+        type: 'string',
+      },
+      {
+        name: 'delay',
+        alias: 'Delay (min)',
+        type: 'double',
+      },
+      {
+        name: 'age',
+        alias: 'Age (fraction of the history length)',
+        type: 'double',
+      },
+    ],
+    renderer: new SimpleRenderer({
+      symbol: new SimpleLineSymbol({
+        color: TRAIL_CONFIG.DELAY_STOPS[0].color,
+        width: TRAIL_CONFIG.WIDTH,
+        style: 'solid',
+      }),
+      visualVariables: [
+        new ColorVariable({ field: 'delay', stops: TRAIL_CONFIG.DELAY_STOPS }),
+        new OpacityVariable({ field: 'age', stops: TRAIL_CONFIG.OPACITY_STOPS }),
+      ],
+    }),
+  });
+
+  trailLayer = layer;
+  return layer;
+}
+
+// Show trails for all, only the selected or no vehicles
+export function setTrailMode(mode: TrailMode): void {
+  trailMode = mode;
+}
+
+// Vehicles shown in 'selected' mode (replaces the previous selection, empty to clear)
+export function setTrailVehicles(vehicleIds: Iterable<string>): void {
+  trailVehicleIds = new Set(vehicleIds);
+}
+
+// Split a history into features of SEGMENT_POINTS points; neighbors share their end point so the trail has no gaps
+function createTrailGraphics(
+  vehicleId: string,
+  points: readonly HistoryPoint[],
+  now: number,
+  maxAge: number,
+): Graphic[] {
+  const graphics: Graphic[] = [];
+  const projected = projectPointsToTarget(points);
+  const step = TRAIL_CONFIG.SEGMENT_POINTS - 1;
+
+  for (let start = 0; start < points.length - 1; start += step) {
+    const end = Math.min(start + step, points.length - 1);
+    const newest = points[end];
+
+    graphics.push(
+      new Graphic({
+        geometry: new Polyline({
+          paths: [projected.slice(start, end + 1)],
+          spatialReference: targetSpatialReference,
+        }),
+        attributes: {
+          OBJECTID: nextObjectId++,
+          vehicleId,
+          delay: (newest.delay ?? 0) / 60000,
+          age: maxAge > 0 ? Math.min(1, (now - newest.time) / maxAge) : 0,
+        },
+      }),
+    );
+  }
+
+  return graphics;
+}
+
+// Redraw all trails from the given histories (clock time now, maxAge in ms for the fading)
+export function refreshTrails(
+  histories: ReadonlyMap<string, readonly HistoryPoint[]>,
+  now: number,
+  maxAge: number,
+): void {
+  if (!trailLayer || !projectionLoaded) return;
+
+  const vehicleIds = trailMode === 'all' ? [...histories.keys()] : trailMode === 'selected' ? [...trailVehicleIds] : [];
+
+  const addFeatures: Graphic[] = [];
+  for (const vehicleId of vehicleIds) {
+    const points = histories.get(vehicleId);
+    if (points && points.length >= 2) {
+      addFeatures.push(...createTrailGraphics(vehicleId, points, now, maxAge));
+    }
+  }
+
+  const deleteFeatures = trailObjectIds.map((objectId) => ({ objectId }));
+  trailObjectIds = addFeatures.map((graphic) => graphic.attributes.OBJECTID as number);
+
+  // Trails age continuously, so everything is replaced in a single batch
+  if (addFeatures.length > 0 || deleteFeatures.length > 0) {
+    void trailLayer.applyEdits({
+      addFeatures,
+      deleteFeatures,
+    });
+  }
+}
@@ -7,6 +7,10 @@ import FeatureLayer from '@arcgis/core/layers/FeatureLayer';
 import UniqueValueRenderer from '@arcgis/core/renderers/UniqueValueRenderer';
 import SimpleLineSymbol from '@arcgis/core/symbols/SimpleLineSymbol';
 
+import { MOTS, TRANSPORT_MODES } from '../types/geops';
+
+import type { VehicleState } from '../types/geops';
+
 // Spatial references
 const WEB_MERCATOR = new SpatialReference({ wkid: 3857 });
 let targetSpatialReference: SpatialReference = new SpatialReference({ wkid: 3857 }); // Default to Web Mercator
@@ -16,16 +20,27 @@ export function setTargetSpatialReference(sr: SpatialReference): void {
   targetSpatialReference = sr;
 }
 
+// Highlighted trajectories (selected vehicle), same color as the highlighted vehicle icons
+const HIGHLIGHT_COLOR = '#facc15';
+const HIGHLIGHT_WIDTH = 5;
+const HIGHLIGHT_VALUE = 'highlighted';
+
+// Trajectories of cancelled journeys are dashed in the color of their mode
+const CANCELLED_SUFFIX = '|cancelled';
+
 // Store trajectories
 interface TrajectoryData {
   coords: [number, number][];
   type?: string;
+  state?: VehicleState;
 }
 
 const trajectories = new Map<string, TrajectoryData>();
 const trajectoryObjectIds = new Map<string, number>(); // Map vehicleId to objectId
 let nextObjectId = 1;
 let trajectoryLayer: FeatureLayer | null = null;
+let highlightedVehicleIds = new Set<string>();
+let cancelledVisible = true;
 
 // Load projection operator
 let projectionLoaded = false;
@@ -82,36 +97,43 @@ export function createTrajectoryLayer(): FeatureLayer {
         alias: 'Vehicle Type',
         type: 'string',
       },
+      {
+        name: 'highlighted',
+        alias: 'Highlighted',
+        type: 'small-integer',
+      },
+      {
+        name: 'cancelled',
+        alias: 'Cancelled',
+        type: 'small-integer',
+      },
     ],
     renderer: new UniqueValueRenderer({
-      field: 'type',
+      // Highlighted trajectories get their own style, all others are styled by type (and cancellation)
+      valueExpression: `IIF($feature.highlighted == 1, '${HIGHLIGHT_VALUE}',
+        IIF($feature.cancelled == 1, $feature.type + '${CANCELLED_SUFFIX}', $feature.type))`,
       defaultSymbol: new SimpleLineSymbol({
         color: [128, 128, 128, 0.6],
         width: 2,
         style: 'solid',
       }),
+      // Solid and dashed (cancelled) line styles per registered mode of transport, plus the highlight
       uniqueValueInfos: [
+        ...MOTS.flatMap((mot) =>
+          (['solid', 'dash'] as const).map((style) => ({
+            value: style === 'dash' ? `${mot}${CANCELLED_SUFFIX}` : mot,
+            symbol: new SimpleLineSymbol({
+              color: TRANSPORT_MODES[mot].trajectoryColor,
+              width: TRANSPORT_MODES[mot].trajectoryWidth,
+              style,
+            }),
+          })),
+        ),
         {
-          value: 'rail',
-          symbol: new SimpleLineSymbol({
-            color: [59, 130, 246, 0.6], // blue
-            width: 3,
-            style: 'solid',
-          }),
-        },
-        {
-          value: 'bus',
+          value: HIGHLIGHT_VALUE,
           symbol: new SimpleLineSymbol({
-            color: [34, 197, 94, 0.6], // green
-            width: 2,
-            style: 'solid',
-          }),
-        },
-        {
-          value: 'tram',
-          symbol: new SimpleLineSymbol({
-            color: [168, 85, 247, 0.6], // purple
-            width: 2,
+            color: HIGHLIGHT_COLOR,
+            width: HIGHLIGHT_WIDTH,
             style: 'solid',
           }),
         },
@@ -124,8 +146,29 @@ export function createTrajectoryLayer(): FeatureLayer {
 }
 
 // Update a single trajectory
-export function updateTrajectory(vehicleId: string, coords: [number, number][], type?: string): void {
-  trajectories.set(vehicleId, { coords, type });
+export function updateTrajectory(
+  vehicleId: string,
+  coords: [number, number][],
+  type?: string,
+  state?: VehicleState,
+): void {
+  trajectories.set(vehicleId, { coords, type, state });
+}
+
+// Show or hide the trajectories of cancelled journeys
+export function setCancelledTrajectoriesVisible(visible: boolean): void {
+  cancelledVisible = visible;
+  refreshTrajectories();
+}
+
+function isShown(data: TrajectoryData): boolean {
+  return cancelledVisible || data.state !== 'JOURNEY_CANCELLED';
+}
+
+// Highlight the trajectories of the given vehicles (replaces the previous highlight, empty to clear)
+export function setHighlightedTrajectories(vehicleIds: Iterable<string>): void {
+  highlightedVehicleIds = new Set(vehicleIds);
+  refreshTrajectories();
 }
 
 // Remove a trajectory
@@ -147,14 +190,17 @@ export function refreshTrajectories(): void {
   if (!trajectoryLayer || !projectionLoaded) return;
 
   // Track which vehicle IDs should have trajectories
-  const currentVehicleIds = new Set(trajectories.keys());
+  const currentVehicleIds = new Set<string>();
+  for (const [vehicleId, data] of trajectories) {
+    if (isShown(data)) currentVehicleIds.add(vehicleId);
+  }
 
   // Collect edits
   const addFeatures: Graphic[] = [];
   const updateFeatures: Graphic[] = [];
   const deleteFeatures: { objectId: number }[] = [];
 
-  // Remove features for vehicles that no longer have trajectories
+  // Remove features for vehicles that no longer have (shown) trajectories
   for (const [vehicleId, objectId] of trajectoryObjectIds) {
     if (!currentVehicleIds.has(vehicleId)) {
       deleteFeatures.push({ objectId });
@@ -164,7 +210,7 @@ export function refreshTrajectories(): void {
 
   // Update or create features for current trajectories
   for (const [vehicleId, data] of trajectories) {
-    if (data.coords.length < 2) continue;
+    if (data.coords.length < 2 || !isShown(data)) continue;
 
     // Project coordinates to target spatial reference
     const projectedCoords = projectCoordsToTarget(data.coords);
@@ -184,6 +230,8 @@ export function refreshTrajectories(): void {
           OBJECTID: existingObjectId,
           vehicleId: vehicleId,
           type: data.type,
+          highlighted: highlightedVehicleIds.has(vehicleId) ? 1 : 0,
+          cancelled: data.state === 'JOURNEY_CANCELLED' ? 1 : 0,
         },
       });
       updateFeatures.push(graphic);
@@ -198,6 +246,8 @@ export function refreshTrajectories(): void {
           OBJECTID: objectId,
           vehicleId: vehicleId,
           type: data.type,
+          highlighted: highlightedVehicleIds.has(vehicleId) ? 1 : 0,
+          cancelled: data.state === 'JOURNEY_CANCELLED' ? 1 : 0,
         },
       });
       addFeatures.push(graphic);
@@ -6,7 +6,9 @@ import UniqueValueRenderer from '@arcgis/core/renderers/UniqueValueRenderer';
 import IconSymbol3DLayer from '@arcgis/core/symbols/IconSymbol3DLayer';
 import PointSymbol3D from '@arcgis/core/symbols/PointSymbol3D';
 
-import type { Vehicle, VehicleState } from '../types/geops';
+import { getDelayCategory, getTransportMode, normalizeLineName } from '../types/geops';
+
+import type { DelayCategory, Vehicle, VehicleState } from '../types/geops';
 
 // Visualization mode type
 type VisualizationMode = 'elevated' | '3d';
@@ -59,6 +61,50 @@ function projectToTarget(x: number, y: number, z: number): Point {
 
 // Default colors
 const SBB_RED = '#e2231a';
+const STALE_COLOR = '#9ca3af'; // 3D mode: stale vehicles are drawn gray
+
+// Opacity of stale vehicle icons (no recent trajectory update)
+const STALE_OPACITY = 0.4;
+
+// Highlighted vehicles get a ring in this color and larger icons
+const HIGHLIGHT_COLOR = '#facc15';
+const HIGHLIGHT_SCALE = 1.4;
+
+// Cancelled journeys are drawn hollow and struck through (3D mode: dark cylinders)
+const CANCELLED_COLOR = '#374151';
+const CANCELLED_STRIKE_COLOR = '#dc2626';
+
+// Whether cancelled vehicles are drawn at all (they stay in the store and counts either way)
+let cancelledVisible = true;
+
+// Vehicles highlighted on request (e.g. from the departure board)
+let highlightedVehicleIds = new Set<string>();
+
+// Lines whose vehicles are highlighted (e.g. from a disruption message), normalized names
+let highlightedLines = new Set<string>();
+
+// Highlight the given vehicles (replaces the previous highlight, empty to clear)
+// The animation loop applies changes automatically via symbolKey
+export function setHighlightedVehicles(vehicleIds: Iterable<string>): void {
+  highlightedVehicleIds = new Set(vehicleIds);
+}
+
+// Highlight all vehicles of the given lines (replaces the previous line highlight, empty to clear)
+export function setHighlightedLines(lineNames: Iterable<string>): void {
+  highlightedLines = new Set([...lineNames].map(normalizeLineName));
+}
+
+// Show or hide cancelled vehicles; hidden ones are removed from the layer on the next update
+export function setCancelledVehiclesVisible(visible: boolean): void {
+  cancelledVisible = visible;
+}
+
+function isHighlighted(vehicle: Vehicle): boolean {
+  return (
+    highlightedVehicleIds.has(vehicle.id) ||
+    (vehicle.lineName !== undefined && highlightedLines.has(normalizeLineName(vehicle.lineName)))
+  );
+}
 
 // StreamLayer ID system:
 // - TRACKID: Stable ID per vehicle, used by StreamLayer to group observations
@@ -92,7 +138,7 @@ type IconShape = 'circle' | 'square';
 const ICON_CONFIG = {
   MAX_CACHE_SIZE: 500,
   DEFAULT_SIZE: 64,
-  BASE_SIZES: { rail: 38, bus: 19 },
+  BASE_SIZE: 19, // types missing from the mode registry
   MIN_SIZE: 8,
   FONT_SIZE_RATIOS: [0.45, 0.38, 0.32, 0.28, 0.24],
   TEXT_LENGTH_THRESHOLDS: [2, 3, 4, 5],
@@ -126,10 +172,13 @@ function createLineNameSvg(
   vehicleType: string = '',
   showText: boolean = true,
   shape: IconShape = 'circle',
+  stale: boolean = false,
+  highlighted: boolean = false,
+  cancelled: boolean = false,
 ): string {
   // Rail and tram get the outer gray ring/border
   const hasOuterBorder = vehicleType === 'rail' || vehicleType === 'tram';
-  const cacheKey = `${lineName}-${bgColor}-${size}-${vehicleType}-${showText}-${shape}`;
+  const cacheKey = `${lineName}-${bgColor}-${size}-${vehicleType}-${showText}-${shape}-${stale}-${highlighted}-${cancelled}`;
   if (svgIconCache.has(cacheKey)) {
     return svgIconCache.get(cacheKey)!;
   }
@@ -146,6 +195,11 @@ function createLineNameSvg(
   const center = size / 2;
   let outerShape = '';
   let innerShape = '';
+  let strikeLength: number;
+
+  // Cancelled vehicles are hollow: white fill, outline and text in the cancelled color
+  const fill = cancelled ? 'white' : bgColor;
+  const stroke = cancelled ? CANCELLED_COLOR : 'white';
 
   if (shape === 'square') {
     // Square shape (for BOARDING vehicles) - 10% smaller than circle
@@ -162,7 +216,8 @@ function createLineNameSvg(
     // Inner filled square
     innerShape = `<rect x="${center - innerSize}" y="${center - innerSize}"
       width="${innerSize * 2}" height="${innerSize * 2}"
-      fill="${bgColor}" stroke="white" stroke-width="2" rx="2"/>`;
+      fill="${fill}" stroke="${stroke}" stroke-width="2" rx="2"/>`;
+    strikeLength = innerSize;
   } else {
     // Circle shape (existing behavior)
     const innerRadius = hasOuterBorder ? size / 2 - 10 : size / 2 - 2;
@@ -172,21 +227,38 @@ function createLineNameSvg(
       outerShape = `<circle cx="${center}" cy="${center}" r="${size / 2 - 4}" fill="none" stroke="#6b7280" stroke-width="8"/>`;
     }
 
-    innerShape = `<circle cx="${center}" cy="${center}" r="${innerRadius}" fill="${bgColor}" stroke="white" stroke-width="3"/>`;
+    innerShape = `<circle cx="${center}" cy="${center}" r="${innerRadius}" fill="${fill}" stroke="${stroke}" stroke-width="3"/>`;
+    strikeLength = innerRadius * Math.SQRT1_2;
   }
 
   // Only show text if showText is true
   const textElement = showText
     ? `<text x="${center}" y="${center}" text-anchor="middle" dominant-baseline="central"
-          font-family="Arial, sans-serif" font-size="${fontSize}px" font-weight="bold" fill="white">
+          font-family="Arial, sans-serif" font-size="${fontSize}px" font-weight="bold" fill="${cancelled ? CANCELLED_COLOR : 'white'}">
       ${escapeXml(lineName)}
     </text>`
     : '';
 
+  // Cancelled vehicles are struck through from bottom left to top right
+  const strikeLine = cancelled
+    ? `<line x1="${center - strikeLength}" y1="${center + strikeLength}" x2="${center + strikeLength}" y2="${center - strikeLength}"
+        stroke="${CANCELLED_STRIKE_COLOR}" stroke-width="4" stroke-linecap="round"/>`
+    : '';
+
+  // Highlighted vehicles get a colored ring around the icon
+  const highlightRing = highlighted
+    ? `<circle cx="${center}" cy="${center}" r="${size / 2 - 2}" fill="none" stroke="${HIGHLIGHT_COLOR}" stroke-width="4"/>`
+    : '';
+
+  // Stale vehicles are faded
   const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">
-    ${outerShape}
-    ${innerShape}
-    ${textElement}
+    ${highlightRing}
+    <g opacity="${stale ? STALE_OPACITY : 1}">
+      ${outerShape}
+      ${innerShape}
+      ${textElement}
+      ${strikeLine}
+    </g>
   </svg>`;
 
   const dataUrl = `data:image/svg+xml;base64,${btoa(svg)}`;
@@ -204,18 +276,17 @@ function escapeXml(text: string): string {
     .replace(/'/g, '&apos;');
 }
 
+// Delay colors per category (< 1 min, 1-5 min, >= 5 min)
+// The category also keys the renderer symbols, which reduces unique combinations
+const DELAY_COLORS: Record<DelayCategory, string> = {
+  'on-time': '#22c55e', // green
+  'delayed': '#f59e0b', // orange
+  'very-delayed': '#ef4444', // red
+};
+
 // Get delay color based on delay value in milliseconds
 function getDelayColor(delay: number): string {
-  if (delay < 60000) return '#22c55e'; // green (< 1 min)
-  if (delay < 300000) return '#f59e0b'; // orange (1-5 min)
-  return '#ef4444'; // red (>= 5 min)
-}
-
-// Get delay category for renderer (reduces unique combinations)
-function getDelayCategory(delay: number): string {
-  if (delay < 60000) return 'on-time'; // green (< 1 min)
-  if (delay < 300000) return 'delayed'; // orange (1-5 min)
-  return 'very-delayed'; // red (>= 5 min)
+  return DELAY_COLORS[getDelayCategory(delay)];
 }
 
 // Get current scale key for renderer (combines scale factor and text visibility)
@@ -225,22 +296,37 @@ function getScaleKey(): string {
 }
 
 // Create renderer key from vehicle properties
-function getRendererKey(type: string, lineName: string, delayCategory: string, state: string): string {
-  return `${type}|${lineName}|${delayCategory}|${state}|${getScaleKey()}`;
+function getRendererKey(
+  type: string,
+  lineName: string,
+  delayCategory: string,
+  state: string,
+  stale: boolean,
+  highlighted: boolean,
+): string {
+  const status = `${stale ? 'stale' : 'live'}${highlighted ? '-highlight' : ''}`;
+  return `${type}|${lineName}|${delayCategory}|${state}|${status}|${getScaleKey()}`;
 }
 
 // Ensure symbol exists in renderer, add if not
-function ensureSymbolInRenderer(type: string, lineName: string, delay: number, state: VehicleState): void {
+function ensureSymbolInRenderer(
+  type: string,
+  lineName: string,
+  delay: number,
+  state: VehicleState,
+  stale: boolean,
+  highlighted: boolean,
+): void {
   if (!vehicleRenderer) return;
 
   const delayCategory = getDelayCategory(delay);
   const stateStr = state || 'DRIVING';
-  const key = getRendererKey(type, lineName, delayCategory, stateStr);
+  const key = getRendererKey(type, lineName, delayCategory, stateStr, stale, highlighted);
 
   if (addedSymbolKeys.has(key)) return;
 
   // Create symbol for this combination
-  const symbol = createVehicleSymbol(lineName, delay, 0, type, state);
+  const symbol = createVehicleSymbol(lineName, delay, 0, type, state, stale, highlighted);
 
   vehicleRenderer.addUniqueValueInfo({
     value: key,
@@ -293,6 +379,7 @@ export function createVehicleLayer(): StreamLayer {
       { name: 'delay', alias: 'Delay', type: 'integer' },
       { name: 'type', alias: 'Vehicle Type', type: 'string' },
       { name: 'state', alias: 'State', type: 'string' },
+      { name: 'stale', alias: 'Stale', type: 'small-integer' },
       { name: 'lineColor', alias: 'Line Color', type: 'string' },
       { name: 'symbolKey', alias: 'Symbol Key', type: 'string' },
     ],
@@ -312,22 +399,38 @@ function createVehicleSymbol(
   rotation: number,
   type?: string,
   state?: VehicleState,
+  stale: boolean = false,
+  highlighted: boolean = false,
 ): __esri.Symbol {
   const delayColor = getDelayColor(delay);
-  const iconSize = getIconSize(type);
+  const iconSize = Math.round(getIconSize(type) * (highlighted ? HIGHLIGHT_SCALE : 1));
   const showText = shouldShowLineNumber();
   // Use square shape for BOARDING, circle for DRIVING (default)
   const shape: IconShape = state === 'BOARDING' ? 'square' : 'circle';
-  const iconUrl = createLineNameSvg(lineName, delayColor, iconSize * 4, type || '', showText, shape); // Quadruple size for better resolution
+  const cancelled = state === 'JOURNEY_CANCELLED';
+  // Quadruple size for better resolution
+  const iconUrl = createLineNameSvg(
+    lineName,
+    delayColor,
+    iconSize * 4,
+    type || '',
+    showText,
+    shape,
+    stale,
+    highlighted,
+    cancelled,
+  );
 
   if (currentMode === '3d') {
+    const primitive = state === 'BOARDING' ? 'cube' : cancelled ? 'cylinder' : 'cone';
+    const color = highlighted ? HIGHLIGHT_COLOR : stale ? STALE_COLOR : cancelled ? CANCELLED_COLOR : delayColor;
     return {
       type: 'point-3d',
       symbolLayers: [
         {
           type: 'object',
-          resource: { primitive: state === 'BOARDING' ? 'cube' : 'cone' },
-          material: { color: delayColor },
+          resource: { primitive },
+          material: { color },
           height: iconSize * 6,
           width: iconSize * 3,
           depth: iconSize * 3,
@@ -363,8 +466,8 @@ function createVehicleSymbol(
 
 // Get icon size based on vehicle type and current scale factor
 function getIconSize(type?: string): number {
-  const { BASE_SIZES, MIN_SIZE } = ICON_CONFIG;
-  const baseSize = type === 'rail' ? BASE_SIZES.rail : BASE_SIZES.bus;
+  const { BASE_SIZE, MIN_SIZE } = ICON_CONFIG;
+  const baseSize = getTransportMode(type)?.baseIconSize ?? BASE_SIZE;
   return Math.max(MIN_SIZE, Math.round(baseSize * currentScaleFactor));
 }
 
@@ -416,6 +519,8 @@ export function updateVehicles(layer: StreamLayer, vehicles: Vehicle[]): void {
   }[] = [];
 
   for (const vehicle of vehicles) {
+    // Hidden cancelled vehicles are not added, so they are deleted below like vanished ones
+    if (!cancelledVisible && vehicle.state === 'JOURNEY_CANCELLED') continue;
     currentIds.add(vehicle.id);
 
     // Project from Web Mercator (3857) to target spatial reference
@@ -426,12 +531,14 @@ export function updateVehicles(layer: StreamLayer, vehicles: Vehicle[]): void {
     const type = vehicle.type || '';
     const state = vehicle.state || 'DRIVING';
 
+    const highlighted = isHighlighted(vehicle);
+
     // Ensure symbol exists in renderer for this combination
-    ensureSymbolInRenderer(type, lineName, delay, state);
+    ensureSymbolInRenderer(type, lineName, delay, state, vehicle.stale, highlighted);
 
     // Create symbol key for renderer lookup
     const delayCategory = getDelayCategory(delay);
-    const symbolKey = getRendererKey(type, lineName, delayCategory, state);
+    const symbolKey = getRendererKey(type, lineName, delayCategory, state, vehicle.stale, highlighted);
 
     // Get or create track ID for this vehicle
     const trackId = getTrackId(vehicle.id);
@@ -446,6 +553,7 @@ export function updateVehicles(layer: StreamLayer, vehicles: Vehicle[]): void {
         delay: delay,
         type: type,
         state: state,
+        stale: vehicle.stale ? 1 : 0,
         lineColor: vehicle.lineColor || SBB_RED,
         symbolKey: symbolKey,
       },
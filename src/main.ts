@@ -44,6 +44,7 @@ import '@arcgis/map-components/dist/components/arcgis-compass';
 import Camera from '@arcgis/core/Camera';
 import esriConfig from '@arcgis/core/config';
 import * as reactiveUtils from '@arcgis/core/core/reactiveUtils';
+import Extent from '@arcgis/core/geometry/Extent';
 import * as projectOperator from '@arcgis/core/geometry/operators/projectOperator';
 import Point from '@arcgis/core/geometry/Point';
 import SpatialReference from '@arcgis/core/geometry/SpatialReference';
@@ -51,14 +52,32 @@ import { setAssetPath } from '@esri/calcite-components/dist/components';
 
 // Import our services and components
 import { AnimatedMarker } from './components/animated-marker';
+import { DepartureBoard } from './components/departure-board';
+import { DisruptionPanel } from './components/disruption-panel';
+import { FilterPanel } from './components/filter-panel';
+import { FollowCamera, parseFollowStyle } from './components/follow-camera';
+import { PunctualityPanel } from './components/punctuality-panel';
 import { SearchPanel } from './components/search-panel';
+import { SessionControls } from './components/session-controls';
 import { StatusPanel } from './components/status-panel';
+import { VehiclePanel } from './components/vehicle-panel';
 import { VehiclePopup } from './components/vehicle-popup';
+import { WatchlistPanel } from './components/watchlist-panel';
+import {
+  createTrailLayer,
+  refreshTrails,
+  parseTrailMode,
+  setTrailMode,
+  setTrailVehicles,
+  setTargetSpatialReference as setTrailSpatialReference,
+} from './layers/trail-layer';
 import {
   createTrajectoryLayer,
   updateTrajectory,
   removeTrajectory,
   refreshTrajectories,
+  setHighlightedTrajectories,
+  setCancelledTrajectoriesVisible,
   setTargetSpatialReference as setTrajectorySpatialReference,
 } from './layers/trajectory-layer';
 import {
@@ -67,18 +86,43 @@ import {
   removeVehicle,
   setTargetSpatialReference as setVehicleSpatialReference,
   setIconScaleFactor,
+  setHighlightedVehicles,
+  setHighlightedLines,
+  setCancelledVehiclesVisible,
   AREA_THRESHOLDS,
 } from './layers/vehicle-layer';
-import { GeopsApiService } from './services/geops-api';
+import { GeopsApiService, parsePrefetchMargin, parseRegions, serializeRegions } from './services/geops-api';
+import { PunctualityStats } from './services/punctuality-stats';
+import { parseFilter, serializeFilter } from './services/vehicle-filter';
+import { GEOPS_CONFIG } from './types/geops';
 
+import type { PinnedRegion } from './services/geops-api';
+import type { Departure, Disruption } from './types/geops';
 import type FeatureLayer from '@arcgis/core/layers/FeatureLayer';
 import type StreamLayer from '@arcgis/core/layers/StreamLayer';
 
 // Constants for extent-based filtering
 const TRAJECTORY_REFRESH_INTERVAL = 2000;
-
-// Store interval ID for cleanup
+// Breadcrumb trails age continuously; their history is sampled every 5 s by default
+const TRAIL_REFRESH_INTERVAL = 5000;
+// The follow camera never lets the view become stationary, so the bbox is refreshed on a timer
+const FOLLOW_BBOX_INTERVAL = 2000;
+
+// Generalization level requested from the tracker, derived from the view scale
+const ZOOM_LEVEL_CONFIG = {
+  // Web Mercator scale at zoom level 0 (256 px tiles, 96 dpi)
+  SCALE_AT_ZOOM_0: 591657527.591555,
+  MIN_LEVEL: 4,
+  MAX_LEVEL: 20,
+  // Tilted views show far-away areas at a coarser scale; one level less per halving of cos(tilt),
+  // limited so that near-horizontal views do not drop to the coarsest level
+  MAX_TILT: 75,
+};
+
+// Store interval IDs for cleanup
 let trajectoryRefreshInterval: number | null = null;
+let trailRefreshInterval: number | null = null;
+let followBBoxInterval: number | null = null;
 
 // Calculate extent area in km² from Web Mercator coordinates
 function calculateExtentAreaKm2(xmin: number, ymin: number, xmax: number, ymax: number): number {
@@ -98,6 +142,14 @@ function calculateExtentAreaKm2(xmin: number, ymin: number, xmax: number, ymax:
   return Math.abs(widthKm * heightKm);
 }
 
+// Web Mercator zoom level matching the view scale, lowered for tilted views
+function calculateZoomLevel(scale: number, tilt: number): number {
+  const { SCALE_AT_ZOOM_0, MIN_LEVEL, MAX_LEVEL, MAX_TILT } = ZOOM_LEVEL_CONFIG;
+  const tiltRadians = (Math.min(Math.max(tilt, 0), MAX_TILT) * Math.PI) / 180;
+  const level = Math.log2(SCALE_AT_ZOOM_0 / scale) + Math.log2(Math.cos(tiltRadians));
+  return Math.min(MAX_LEVEL, Math.max(MIN_LEVEL, Math.round(level)));
+}
+
 // Ensure ground/terrain is present in the scene
 async function ensureGroundTerrain(view: __esri.SceneView): Promise<void> {
   if (view.map && (!view.map.ground || view.map.ground.layers.length === 0)) {
@@ -110,19 +162,26 @@ async function ensureGroundTerrain(view: __esri.SceneView): Promise<void> {
   }
 }
 
-// Set the initial camera position
+// Set the initial camera position from the tenant profile, or frame ?bbox= / VITE_BBOX with its heading and tilt
+// (the tenant's own bbox keeps its camera); the first tracker subscription and REST snapshot follow from this view
 function setInitialCamera(view: __esri.SceneView): void {
-  const initialCamera = new Camera({
-    position: new Point({
-      x: 926334.160695936,
-      y: 5953494.012044153,
-      z: 3584.6630774475634,
-      spatialReference: { wkid: 102100 },
-    }),
-    heading: 201.8507645974617,
-    tilt: 37.17328109689199,
-  });
-  view.goTo(initialCamera, { duration: 0 }).catch(() => {
+  const { x, y, z, heading, tilt } = GEOPS_CONFIG.TENANT.camera;
+  const bbox = GEOPS_CONFIG.BBOX;
+  const target =
+    bbox !== GEOPS_CONFIG.TENANT.bbox
+      ? {
+          target: new Extent({
+            xmin: bbox.left,
+            ymin: bbox.bottom,
+            xmax: bbox.right,
+            ymax: bbox.top,
+            spatialReference: { wkid: 102100 },
+          }),
+          heading,
+          tilt,
+        }
+      : new Camera({ position: new Point({ x, y, z, spatialReference: { wkid: 102100 } }), heading, tilt });
+  view.goTo(target, { duration: 0 }).catch(() => {
     // Ignore navigation errors on initial load
   });
 }
@@ -131,25 +190,43 @@ function setInitialCamera(view: __esri.SceneView): void {
 function initializeLayers(view: __esri.SceneView): {
   vehicleLayer: StreamLayer;
   trajectoryLayer: FeatureLayer;
+  trailLayer: FeatureLayer;
   searchMarker: AnimatedMarker;
 } {
   const trajectoryLayer = createTrajectoryLayer();
+  const trailLayer = createTrailLayer();
   const vehicleLayer = createVehicleLayer();
   const searchMarker = new AnimatedMarker();
 
   if (view.map) {
     view.map.add(trajectoryLayer);
+    view.map.add(trailLayer);
     view.map.add(vehicleLayer);
     view.map.add(searchMarker.getLayer());
   }
 
-  return { vehicleLayer, trajectoryLayer, searchMarker };
+  return { vehicleLayer, trajectoryLayer, trailLayer, searchMarker };
+}
+
+// Highlight vehicles and their trajectories on the map and show their breadcrumb trails (empty to clear)
+function highlightVehicles(vehicleIds: string[]): void {
+  setHighlightedVehicles(vehicleIds);
+  setHighlightedTrajectories(vehicleIds);
+  setTrailVehicles(vehicleIds);
 }
 
 // Setup station search functionality
-function setupSearch(view: __esri.SceneView, searchMarker: AnimatedMarker): void {
+// Stations with a UIC number also open the live departure board
+function setupSearch(view: __esri.SceneView, searchMarker: AnimatedMarker, departureBoard: DepartureBoard): void {
   const searchPanel = new SearchPanel('search-panel-container');
-  searchPanel.onSelect(async (lng, lat) => {
+  searchPanel.onSelect(async (lng, lat, name, id) => {
+    highlightVehicles([]);
+    if (id) {
+      departureBoard.show(id, name);
+    } else {
+      departureBoard.hide();
+    }
+
     try {
       await view.goTo({
         center: [lng, lat],
@@ -163,9 +240,104 @@ function setupSearch(view: __esri.SceneView, searchMarker: AnimatedMarker): void
   });
   searchPanel.onClear(() => {
     searchMarker.hide();
+    departureBoard.hide();
+    highlightVehicles([]);
   });
 }
 
+// Highlight the vehicle of a departure and fly to it when it is on the map
+function setupDepartureBoard(view: __esri.SceneView, apiService: GeopsApiService): DepartureBoard {
+  const departureBoard = new DepartureBoard('departure-board-container', apiService);
+
+  departureBoard.onSelect((departure: Departure) => {
+    highlightVehicles([departure.trainId]);
+
+    const vehicle = apiService.getVehicles().find((candidate) => candidate.id === departure.trainId);
+    if (vehicle) {
+      view
+        .goTo({
+          target: new Point({ x: vehicle.x, y: vehicle.y, spatialReference: { wkid: 3857 } }),
+          zoom: 15,
+        })
+        .catch(() => {
+          // Ignore navigation errors
+        });
+    }
+  });
+
+  departureBoard.onClose(() => {
+    highlightVehicles([]);
+  });
+
+  return departureBoard;
+}
+
+// User vehicle filter: starts from ?filter=, edits are written back to the URL
+function setupFilter(apiService: GeopsApiService): void {
+  const initialFilter = parseFilter(urlParams.get('filter'));
+  apiService.setFilter(initialFilter);
+
+  const filterPanel = new FilterPanel('filter-panel-container', initialFilter);
+  filterPanel.onChange((filter) => {
+    apiService.setFilter(filter);
+
+    const url = new URL(window.location.href);
+    const serialized = serializeFilter(filter);
+    if (serialized) {
+      url.searchParams.set('filter', serialized);
+    } else {
+      url.searchParams.delete('filter');
+    }
+    window.history.replaceState(null, '', url);
+  });
+}
+
+// Extra tracker regions: start from ?regions=, the status panel pins the current view or unpins all;
+// changes are written back to the URL
+function setupPinnedRegions(apiService: GeopsApiService, statusPanel: StatusPanel): void {
+  // Region id -> region; ids stay stable so pinning or unpinning leaves the other connections alone
+  const regions = new Map<string, PinnedRegion>();
+  let nextRegionId = 1;
+
+  const updateState = () => {
+    statusPanel.setPinnedRegionCount(regions.size);
+
+    const url = new URL(window.location.href);
+    if (regions.size > 0) {
+      url.searchParams.set('regions', serializeRegions([...regions.values()]));
+    } else {
+      url.searchParams.delete('regions');
+    }
+    window.history.replaceState(null, '', url);
+  };
+
+  const pin = (region: PinnedRegion) => {
+    const id = `pinned-${nextRegionId++}`;
+    regions.set(id, region);
+    apiService.addRegion(id, region.bbox, region.zoomLevel);
+  };
+
+  statusPanel.onPinRegion(() => {
+    const bbox = apiService.getBBox();
+    if (!bbox) return;
+    pin({ bbox, zoomLevel: apiService.getZoomLevel() });
+    updateState();
+  });
+  statusPanel.onClearRegions(() => {
+    for (const id of regions.keys()) {
+      apiService.removeRegion(id);
+    }
+    regions.clear();
+    updateState();
+  });
+
+  const initialRegions = parseRegions(urlParams.get('regions'));
+  if (initialRegions.length > 0) {
+    initialRegions.forEach(pin);
+    updateState();
+  }
+}
+
 // Create bbox update handler
 function createBBoxUpdater(
   view: __esri.SceneView,
@@ -217,36 +389,48 @@ function createBBoxUpdater(
       apiService.setLongDistanceOnly(false);
       detailLevel = 'reduced';
     } else {
-      apiService.setTransportFilter(['rail', 'bus', 'tram']);
+      apiService.setTransportFilter(GEOPS_CONFIG.TENANT.mots);
       apiService.setLongDistanceOnly(false);
       detailLevel = 'detailed';
     }
 
-    statusPanel.setExtentSize(areaKm2, detailLevel);
+    const zoomLevel = calculateZoomLevel(view.scale, view.camera.tilt);
+    statusPanel.setExtentSize(areaKm2, detailLevel, zoomLevel);
 
-    apiService.updateBBox(wmExtent.xmin, wmExtent.ymin, wmExtent.xmax, wmExtent.ymax);
+    apiService.updateBBox(wmExtent.xmin, wmExtent.ymin, wmExtent.xmax, wmExtent.ymax, zoomLevel);
   };
 }
 
-// Setup API service callbacks
-function setupApiCallbacks(apiService: GeopsApiService, vehicleLayer: StreamLayer, statusPanel: StatusPanel): void {
-  apiService.onUpdate((vehicles) => {
+// Setup API service event listeners
+function setupApiListeners(apiService: GeopsApiService, vehicleLayer: StreamLayer, statusPanel: StatusPanel): void {
+  apiService.on('vehicles', (vehicles) => {
     updateVehicles(vehicleLayer, vehicles);
   });
 
-  apiService.onDelete((vehicleId) => {
+  apiService.on('delete', (vehicleId) => {
     removeVehicle(vehicleLayer, vehicleId);
     removeTrajectory(vehicleId);
   });
 
-  apiService.onTrajectory((vehicleId, coords, type) => {
-    updateTrajectory(vehicleId, coords, type);
+  apiService.on('trajectory', (vehicleId, coords, type, state) => {
+    updateTrajectory(vehicleId, coords, type, state);
     statusPanel.onDataUpdate();
   });
 
-  apiService.onFps((fps) => {
+  // Hiding cancelled vehicles only affects the map; they are still tracked and counted
+  statusPanel.onCancelledVisibilityChange((visible) => {
+    setCancelledVehiclesVisible(visible);
+    setCancelledTrajectoriesVisible(visible);
+  });
+
+  apiService.on('fps', (fps) => {
     statusPanel.setFps(fps);
   });
+
+  statusPanel.setConnectionState(apiService.getConnectionState(), apiService.getConnectionError());
+  apiService.on('connection', (state, reason) => {
+    statusPanel.setConnectionState(state, reason);
+  });
 }
 
 // Setup vehicle hover popup
@@ -270,6 +454,8 @@ function setupVehiclePopup(view: __esri.SceneView, vehicleLayer: StreamLayer): v
             destination: attrs.destination,
             delay: attrs.delay,
             type: attrs.type,
+            state: attrs.state,
+            stale: attrs.stale === 1,
           },
           event.x,
           event.y,
@@ -284,8 +470,73 @@ function setupVehiclePopup(view: __esri.SceneView, vehicleLayer: StreamLayer): v
   });
 }
 
+// Click a vehicle to select it: highlight, detail panel, and optionally the follow camera
+function setupVehicleSelection(
+  view: __esri.SceneView,
+  vehicleLayer: StreamLayer,
+  apiService: GeopsApiService,
+  updateBBoxFromView: () => void,
+): { vehiclePanel: VehiclePanel; followCamera: FollowCamera } {
+  const vehiclePanel = new VehiclePanel('vehicle-panel-container', apiService);
+  const followCamera = new FollowCamera(
+    'follow-controls-container',
+    view,
+    parseFollowStyle(urlParams.get('follow')) ?? 'chase',
+  );
+
+  const follow = (vehicleId: string) => {
+    followCamera.follow(vehicleId);
+    vehiclePanel.setFollowing(true);
+  };
+
+  view.on('click', async (event) => {
+    const response = await view.hitTest(event, { include: [vehicleLayer] });
+    const hit = response.results.find((result) => 'graphic' in result && result.graphic.layer === vehicleLayer) as
+      __esri.GraphicHit | undefined;
+    const attrs = hit?.graphic.attributes;
+    const vehicleId = attrs ? attrs.vehicleId || attrs.TRACKID || attrs.id : undefined;
+    if (!vehicleId) return;
+
+    highlightVehicles([vehicleId]);
+    vehiclePanel.show(vehicleId);
+    // While following, a click switches the camera to the new vehicle
+    if (followCamera.getVehicleId()) {
+      follow(vehicleId);
+    }
+  });
+
+  vehiclePanel.onFollow((vehicleId) => {
+    if (followCamera.getVehicleId() === vehicleId) {
+      followCamera.stop();
+    } else {
+      follow(vehicleId);
+    }
+  });
+  vehiclePanel.onClose(() => {
+    highlightVehicles([]);
+    followCamera.stop();
+  });
+  followCamera.onStop(() => {
+    vehiclePanel.setFollowing(false);
+  });
+  apiService.on('vehicles', (vehicles) => {
+    followCamera.update(vehicles);
+  });
+
+  followBBoxInterval = window.setInterval(() => {
+    if (followCamera.isActive()) {
+      updateBBoxFromView();
+    }
+  }, FOLLOW_BBOX_INTERVAL);
+
+  return { vehiclePanel, followCamera };
+}
+
 // Initialize the application
 async function init() {
+  // Tenant branding
+  document.title = `${document.title} – ${GEOPS_CONFIG.TENANT.title}`;
+
   const sceneElement = document.querySelector('arcgis-scene');
 
   if (!sceneElement) {
@@ -301,6 +552,7 @@ async function init() {
     // Configure spatial references for layers
     setVehicleSpatialReference(view.spatialReference);
     setTrajectorySpatialReference(view.spatialReference);
+    setTrailSpatialReference(view.spatialReference);
 
     // Setup scene
     await ensureGroundTerrain(view);
@@ -309,14 +561,53 @@ async function init() {
     // Initialize layers
     const { vehicleLayer, searchMarker } = initializeLayers(view);
 
-    // Setup search
-    setupSearch(view, searchMarker);
-
     // Initialize panels and services
     const statusPanel = new StatusPanel('status-panel-container');
-    const apiService = new GeopsApiService(['rail', 'bus', 'tram']);
+    const apiService = new GeopsApiService(GEOPS_CONFIG.TENANT.mots);
     statusPanel.setApiService(apiService);
 
+    // Setup search and departure board
+    const departureBoard = setupDepartureBoard(view, apiService);
+    setupSearch(view, searchMarker, departureBoard);
+
+    // User vehicle filter
+    setupFilter(apiService);
+
+    // Subscription margin around the view (?prefetch=) and pinned regions (?regions=)
+    const prefetchMargin = parsePrefetchMargin(urlParams.get('prefetch'));
+    if (prefetchMargin !== null) {
+      apiService.setPrefetchMargin(prefetchMargin);
+    }
+    setupPinnedRegions(apiService, statusPanel);
+
+    // Disruption and news messages of the visible lines
+    const disruptionPanel = new DisruptionPanel('disruption-panel-container', apiService);
+    disruptionPanel.onSelect((disruption: Disruption | null) => {
+      setHighlightedLines(disruption ? disruption.lines : []);
+    });
+
+    // Rolling punctuality of the received vehicles; clicking a vehicle highlights it
+    const punctualityStats = new PunctualityStats();
+    apiService.on('vehicles', (vehicles) => {
+      punctualityStats.record(vehicles, apiService.getClock().now());
+    });
+    const punctualityPanel = new PunctualityPanel('punctuality-panel-container', punctualityStats);
+    punctualityPanel.onSelectVehicle((vehicleId) => {
+      highlightVehicles([vehicleId]);
+    });
+
+    // Watched trains and lines: alerts become toasts, "Show on map" highlights the vehicle
+    const watchlistPanel = new WatchlistPanel('watchlist-panel-container', apiService.getWatchlist());
+    apiService.on('alert', (alert) => {
+      watchlistPanel.showAlert(alert);
+    });
+    watchlistPanel.onSelectVehicle((vehicleId) => {
+      highlightVehicles([vehicleId]);
+    });
+
+    // Session record / replay controls
+    const sessionControls = new SessionControls('session-controls-container', apiService);
+
     // Load projection operator
     try {
       await projectOperator.load();
@@ -339,22 +630,44 @@ async function init() {
     );
     updateBBoxFromView();
 
-    // Setup API callbacks
-    setupApiCallbacks(apiService, vehicleLayer, statusPanel);
+    // Setup API event listeners
+    setupApiListeners(apiService, vehicleLayer, statusPanel);
 
     // Start trajectory refresh interval
     trajectoryRefreshInterval = window.setInterval(() => {
       refreshTrajectories();
     }, TRAJECTORY_REFRESH_INTERVAL);
 
+    // Breadcrumb trails of the selected (?trails=selected, default), all (?trails=all) or no vehicles
+    setTrailMode(parseTrailMode(urlParams.get('trails')) ?? 'selected');
+    trailRefreshInterval = window.setInterval(() => {
+      refreshTrails(apiService.getHistories(), apiService.getClock().now(), apiService.getHistoryLimits().maxAge);
+    }, TRAIL_REFRESH_INTERVAL);
+
     // Setup vehicle popup
     setupVehiclePopup(view, vehicleLayer);
 
+    // Vehicle selection and camera follow mode (?follow=top-down|chase|orbit picks the initial style)
+    const { vehiclePanel, followCamera } = setupVehicleSelection(view, vehicleLayer, apiService, updateBBoxFromView);
+
     // Clean up on page unload
     window.addEventListener('beforeunload', () => {
       if (trajectoryRefreshInterval) {
         clearInterval(trajectoryRefreshInterval);
       }
+      if (trailRefreshInterval) {
+        clearInterval(trailRefreshInterval);
+      }
+      if (followBBoxInterval) {
+        clearInterval(followBBoxInterval);
+      }
+      followCamera.destroy();
+      vehiclePanel.destroy();
+      sessionControls.destroy();
+      departureBoard.destroy();
+      disruptionPanel.destroy();
+      punctualityPanel.destroy();
+      watchlistPanel.destroy();
       apiService.disconnect();
     });
   });
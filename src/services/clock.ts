@@ -0,0 +1,83 @@
+// Source of "now" used to interpolate vehicle positions along their time_intervals
+export interface Clock {
+  now(): number; // epoch milliseconds
+}
+
+// Wall-clock time (default)
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+// Adjustable clock for "where will vehicles be in 10 minutes": wall-clock time shifted by an
+// offset, optionally paused or running faster/slower. Simulated time = anchor + elapsed real time * speed.
+export class SimulationClock implements Clock {
+  private simulatedAnchor: number; // simulated time at realAnchor
+  private realAnchor: number;
+  private speed = 1;
+  private paused = false;
+
+  constructor() {
+    this.realAnchor = Date.now();
+    this.simulatedAnchor = this.realAnchor;
+  }
+
+  now(): number {
+    if (this.paused) return this.simulatedAnchor;
+    return this.simulatedAnchor + (Date.now() - this.realAnchor) * this.speed;
+  }
+
+  // Difference between simulated and real time in ms (positive = future)
+  getOffset(): number {
+    return this.now() - Date.now();
+  }
+
+  // Jump to real time + offset, keeping pause state and speed
+  setOffset(offset: number) {
+    this.realAnchor = Date.now();
+    this.simulatedAnchor = this.realAnchor + offset;
+  }
+
+  getSpeed(): number {
+    return this.speed;
+  }
+
+  // Change speed without jumping in simulated time
+  setSpeed(speed: number) {
+    this.reanchor();
+    this.speed = speed;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  pause() {
+    if (this.paused) return;
+    this.reanchor();
+    this.paused = true;
+  }
+
+  resume() {
+    if (!this.paused) return;
+    // Continue from the paused time instead of catching up
+    this.realAnchor = Date.now();
+    this.paused = false;
+  }
+
+  // Back to real time: no offset, normal speed, running
+  reset() {
+    this.speed = 1;
+    this.paused = false;
+    this.setOffset(0);
+  }
+
+  // True while the clock follows wall-clock time (within a second)
+  isRealTime(): boolean {
+    return !this.paused && this.speed === 1 && Math.abs(this.getOffset()) < 1000;
+  }
+
+  private reanchor() {
+    this.simulatedAnchor = this.now();
+    this.realAnchor = Date.now();
+  }
+}
@@ -0,0 +1,50 @@
+// Minimal typed event emitter supporting multiple listeners per event
+// Events map event names to listener argument tuples, e.g. { fps: [fps: number] }
+
+// Call to remove the listener again
+export type Disposer = () => void;
+
+export type EventMap = Record<string, unknown[]>;
+
+export type EventHandler<Args extends unknown[]> = (...args: Args) => void;
+
+export class TypedEventEmitter<Events extends EventMap> {
+  private listeners: { [K in keyof Events]?: Set<EventHandler<Events[K]>> } = {};
+
+  on<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): Disposer {
+    let handlers = this.listeners[event];
+    if (!handlers) {
+      handlers = new Set();
+      this.listeners[event] = handlers;
+    }
+    handlers.add(handler);
+
+    return () => {
+      handlers.delete(handler);
+    };
+  }
+
+  emit<K extends keyof Events>(event: K, ...args: Events[K]) {
+    const handlers = this.listeners[event];
+    if (!handlers) return;
+
+    // Copy so listeners can unsubscribe while being notified
+    for (const handler of [...handlers]) {
+      try {
+        handler(...args);
+      } catch (error) {
+        // One failing listener must not starve the others
+        console.error(`Error in '${String(event)}' listener:`, error);
+      }
+    }
+  }
+
+  hasListeners<K extends keyof Events>(event: K): boolean {
+    const handlers = this.listeners[event];
+    return handlers !== undefined && handlers.size > 0;
+  }
+
+  clear() {
+    this.listeners = {};
+  }
+}
@@ -1,114 +1,544 @@
-import { GEOPS_CONFIG, isLongDistanceTrain } from '../types/geops';
-
-import type { Vehicle, TrajectoryFeature, TimeInterval, VehicleState } from '../types/geops';
-
-interface WebSocketMessage {
-  source: string;
-  timestamp: number;
-  content: unknown;
-  client_reference: string | null;
+import { COUNT_BUCKETS, GEOPS_CONFIG, getTransportMode } from '../types/geops';
+
+import { SimulationClock } from './clock';
+import { TypedEventEmitter } from './event-emitter';
+import { createMessageStats } from './message-validation';
+import { createSnapshotClient, createSnapshotFrame, isRestAuthFailure } from './tracker-rest';
+import { POSITION_STRIDE } from './trajectory-store';
+import { createTransportFactory, isAuthFailure } from './transport';
+import { VehicleHistory } from './vehicle-history';
+import { Watchlist } from './watchlist';
+
+import type { Clock } from './clock';
+import type { Disposer, EventHandler } from './event-emitter';
+import type { MessageStats } from './message-validation';
+import type { SessionRecorder } from './session-recorder';
+import type { TrackerRestClient } from './tracker-rest';
+import type { StalenessPolicy } from './trajectory-store';
+import type { TrackerTransport, TransportFactory } from './transport';
+import type { VehicleFilter } from './vehicle-filter';
+import type { HistoryLimits, HistoryPoint } from './vehicle-history';
+import type { WatchAlert } from './watchlist';
+import type {
+  BBox,
+  ConnectionState,
+  CountBucket,
+  DeleteReason,
+  Departure,
+  Disruption,
+  Journey,
+  Vehicle,
+  VehicleAttributes,
+  VehicleState,
+} from '../types/geops';
+import type { TrackerWorkerRequest, TrackerWorkerResponse } from '../workers/tracker-protocol';
+
+// Vehicle known to the main thread, keyed by its worker slot
+interface VehicleEntry {
+  id: string;
+  attributes: VehicleAttributes;
+  stale: boolean; // as of the latest position batch
 }
 
-interface BufferedMessage {
-  source: string;
-  timestamp: number;
-  content: TrajectoryFeature | string; // trajectory content or deleted vehicle ID
-  client_reference: string | null;
+// Vehicle counts per counting bucket of the mode registry; stale vehicles are counted separately from live ones
+export interface TypeCounts extends Record<CountBucket, number> {
+  total: number;
 }
 
-// Use shared VehicleState type from types/geops
+function createTypeCounts(): TypeCounts {
+  const counts = { total: 0 } as TypeCounts;
+  for (const bucket of Object.keys(COUNT_BUCKETS) as CountBucket[]) {
+    counts[bucket] = 0;
+  }
+  return counts;
+}
 
-// Store trajectory data for animation
-interface VehicleTrajectory {
-  id: string;
-  coords: [number, number][];
-  timeIntervals: TimeInterval[];
-  lineName?: string;
-  lineColor?: string;
-  destination?: string;
-  delay?: number;
-  type?: string;
-  state?: VehicleState;
+export interface VehicleCounts extends TypeCounts {
+  stale: TypeCounts;
+  cancelled: number; // live and stale vehicles of cancelled journeys, also included above
 }
 
-type VehicleCallback = (_vehicles: Vehicle[]) => void;
-type DeleteCallback = (_trainId: string) => void;
-type TrajectoryCallback = (_vehicleId: string, _coords: [number, number][], _type?: string) => void;
+// Events emitted by GeopsApiService (listener argument tuples)
+export type GeopsApiEvents = {
+  vehicles: [vehicles: Vehicle[]]; // interpolated positions, every animation tick
+  delete: [vehicleId: string, reason: DeleteReason]; // vehicle removed (deleted, filtered out, left the bbox or expired)
+  trajectory: [vehicleId: string, coords: [number, number][], type?: string, state?: VehicleState]; // new/updated trajectory
+  fps: [fps: number];
+  connection: [state: ConnectionState, reason?: string];
+  journey: [journey: Journey | null]; // stop sequence of the selected vehicle (null when cleared)
+  departures: [departures: Departure[]]; // departure board of the selected station, sorted by time
+  disruptions: [disruptions: Disruption[]]; // current newsticker messages, newest first
+  alert: [alert: WatchAlert]; // a watchlist rule fired
+};
 
 // Animation configuration based on vehicle count
 const ANIMATION_CONFIG = {
   VEHICLE_THRESHOLDS: [100, 200, 300, 400],
   INTERVALS_MS: [100, 150, 200, 300, 2000],
   FPS_UPDATE_INTERVAL: 1000,
+  // How often validation counters are pulled from the worker
+  STATS_UPDATE_INTERVAL: 1000,
 };
 
 // WebSocket configuration
 const WEBSOCKET_CONFIG = {
   PING_INTERVAL: 30000,
-  RECONNECT_DELAY: 5000,
+  // Reconnect with exponential backoff: BASE * 2^attempt, +-JITTER, capped at MAX
+  RECONNECT_BASE_DELAY: 1000,
+  RECONNECT_MAX_DELAY: 60000,
+  RECONNECT_JITTER: 0.3,
   // Request initial buffered messages from server after BBOX subscribe
   // 100 items balances startup completeness with payload size
   BUFFER_SIZE: 100,
-  ZOOM_LEVEL: 9,
+  // Generalization level of the geometries until the view reports its own (see updateBBox)
+  DEFAULT_ZOOM_LEVEL: 9,
   BBOX_CHANGE_THRESHOLD: 0.05,
+  // The view is subscribed with this margin (fraction of its width/height per side) so vehicles
+  // just outside the screen are already known when panning
+  PREFETCH_MARGIN: 0.25,
+  MAX_PREFETCH_MARGIN: 2, // accepted from ?prefetch=
+  // Extra margin beyond the prefetch margin before vehicles are evicted, so small pans back
+  // and forth do not drop and re-add the same vehicles
+  EVICTION_HYSTERESIS: 0.25,
+  // After a reconnect, vehicles not refreshed by the new subscription within this window
+  // are considered gone (they may have finished their journey while we were offline)
+  RESYNC_GRACE_PERIOD: 30000,
+  // Departures stay on the board this long after their (realtime) departure time
+  DEPARTED_GRACE_PERIOD: 60000,
 };
 
-// Long-distance check is imported from types/geops
+// Delay before reconnect attempt n (0-based); jitter spreads clients after a server restart
+function getReconnectDelay(attempt: number): number {
+  const { RECONNECT_BASE_DELAY, RECONNECT_MAX_DELAY, RECONNECT_JITTER } = WEBSOCKET_CONFIG;
+  const exponential = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** attempt);
+  const jitter = 1 - RECONNECT_JITTER + Math.random() * 2 * RECONNECT_JITTER;
+  return Math.min(RECONNECT_MAX_DELAY, Math.round(exponential * jitter));
+}
+
+// Grow a bbox by a fraction of its width/height on every side
+function expandBBox(bbox: BBox, margin: number): BBox {
+  const dx = (bbox.right - bbox.left) * margin;
+  const dy = (bbox.top - bbox.bottom) * margin;
+  return { left: bbox.left - dx, bottom: bbox.bottom - dy, right: bbox.right + dx, top: bbox.top + dy };
+}
+
+// Prefetch margin from e.g. ?prefetch=0.5, null if missing or out of range
+export function parsePrefetchMargin(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const margin = Number(value);
+  return Number.isFinite(margin) && margin >= 0 && margin <= WEBSOCKET_CONFIG.MAX_PREFETCH_MARGIN ? margin : null;
+}
+
+// Area followed besides the view (see addRegion)
+export interface PinnedRegion {
+  bbox: BBox; // Web Mercator
+  zoomLevel: number;
+}
+
+// Pinned regions from e.g. ?regions=left,bottom,right,top,zoom;... (Web Mercator like ?bbox=, zoom optional)
+// Malformed entries are skipped
+export function parseRegions(value: string | null | undefined): PinnedRegion[] {
+  if (!value) return [];
+
+  const regions: PinnedRegion[] = [];
+  for (const entry of value.split(';')) {
+    const parts = entry.split(',').map(Number);
+    if ((parts.length !== 4 && parts.length !== 5) || parts.some((part) => !Number.isFinite(part))) continue;
+
+    const [left, bottom, right, top, zoomLevel = WEBSOCKET_CONFIG.DEFAULT_ZOOM_LEVEL] = parts;
+    if (left >= right || bottom >= top) continue;
+    regions.push({ bbox: { left, bottom, right, top }, zoomLevel });
+  }
+  return regions;
+}
+
+// Inverse of parseRegions, rounded to meters
+export function serializeRegions(regions: PinnedRegion[]): string {
+  return regions
+    .map(({ bbox, zoomLevel }) =>
+      [bbox.left, bbox.bottom, bbox.right, bbox.top].map(Math.round).concat(zoomLevel).join(','),
+    )
+    .join(';');
+}
+
+// Extra tracker connection for a pinned region (e.g. a second city in split screen)
+// The tracker keeps one BBOX per connection, so every region needs its own transport;
+// frames are handed to the same worker store as the main connection
+class RegionConnection {
+  readonly bbox: BBox;
+  readonly zoomLevel: number;
+  private createTransport: TransportFactory;
+  private getMots: () => string[];
+  private onFrame: (_data: string) => void;
+  private ws: TrackerTransport | null = null;
+  private isConnected = false;
+  private reconnectTimeout: number | null = null;
+  private reconnectAttempts = 0;
+  private pingInterval: number | null = null;
+
+  constructor(
+    bbox: BBox,
+    zoomLevel: number,
+    createTransport: TransportFactory,
+    getMots: () => string[],
+    onFrame: (_data: string) => void,
+  ) {
+    this.bbox = bbox;
+    this.zoomLevel = zoomLevel;
+    this.createTransport = createTransport;
+    this.getMots = getMots;
+    this.onFrame = onFrame;
+  }
+
+  connect() {
+    this.ws = this.createTransport();
+
+    this.ws.onopen = () => {
+      this.isConnected = true;
+      this.reconnectAttempts = 0;
+      this.subscribe();
+      this.pingInterval = window.setInterval(() => {
+        if (this.ws && this.isConnected) this.ws.send('PING');
+      }, WEBSOCKET_CONFIG.PING_INTERVAL);
+    };
+
+    this.ws.onmessage = (data) => this.onFrame(data);
+
+    this.ws.onclose = (event) => {
+      this.stop();
+      // The main connection reports rejected keys; just give up here
+      if (isAuthFailure(event)) return;
+
+      const delay = getReconnectDelay(this.reconnectAttempts);
+      this.reconnectAttempts++;
+      this.reconnectTimeout = window.setTimeout(() => {
+        this.reconnectTimeout = null;
+        this.connect();
+      }, delay);
+    };
+  }
+
+  // Same command format as GeopsApiService.subscribeToBBox
+  subscribe() {
+    if (!this.ws || !this.isConnected) return;
+
+    const { left, bottom, right, top } = this.bbox;
+    const mots = this.getMots();
+    let bboxCommand = `BBOX ${left} ${bottom} ${right} ${top} ${this.zoomLevel}`;
+    if (mots.length > 0) {
+      bboxCommand += ` mots=${mots.join(',')}`;
+    }
+
+    this.ws.send(bboxCommand);
+    this.ws.send(`BUFFER ${WEBSOCKET_CONFIG.BUFFER_SIZE}`);
+  }
+
+  // Close without reconnecting
+  close() {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    const ws = this.ws;
+    this.stop();
+    if (ws) {
+      ws.onclose = null;
+      ws.onmessage = null;
+      ws.close();
+    }
+  }
+
+  private stop() {
+    this.isConnected = false;
+    this.ws = null;
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+  }
+}
 
 export class GeopsApiService {
-  private ws: WebSocket | null = null;
-  private trajectories: Map<string, VehicleTrajectory> = new Map();
-  private onVehicleUpdate: VehicleCallback | null = null;
-  private onVehicleDelete: DeleteCallback | null = null;
-  private onTrajectoryUpdate: TrajectoryCallback | null = null;
-  private onFpsUpdate: ((_fps: number) => void) | null = null;
+  private ws: TrackerTransport | null = null;
+  private createTransport: TransportFactory;
+  // Fetches a REST snapshot of the first bbox while the socket connects (null: no snapshot)
+  private restClient: TrackerRestClient | null;
+  private snapshotPending = true;
+  private snapshotRequest: AbortController | null = null;
+  // Live data uses the adjustable simulation clock; replays bring their own
+  private simulationClock = new SimulationClock();
+  private clock: Clock = this.simulationClock;
+  private recorder: SessionRecorder | null = null;
+  // Parsing, trajectory storage and interpolation live in the tracker worker
+  private worker: Worker;
+  private vehicles: Map<number, VehicleEntry> = new Map();
+  private lastVehicles: Vehicle[] = [];
+  private history = new VehicleHistory(); // breadcrumbs of the interpolated positions
+  private watchlist: Watchlist;
+  private events = new TypedEventEmitter<GeopsApiEvents>();
+  private messageStats: MessageStats = createMessageStats();
   private reconnectTimeout: number | null = null;
+  private reconnectAttempts = 0;
   private isConnected = false;
+  private connectionState: ConnectionState = 'connecting';
+  private connectionError: string | undefined;
+  private subscriptionGeneration = 0;
+  private resyncTimeout: number | null = null;
   private pingInterval: number | null = null;
   private currentMots: string[] = ['rail']; // Default to trains only
+  private filter: VehicleFilter = {}; // user filter, combined with the zoom-driven mots and long-distance filter
   private currentBBox: {
     left: number;
     bottom: number;
     right: number;
     top: number;
   } | null = null;
+  private zoomLevel: number = WEBSOCKET_CONFIG.DEFAULT_ZOOM_LEVEL;
+  private prefetchMargin: number = WEBSOCKET_CONFIG.PREFETCH_MARGIN;
+  private regions: Map<string, RegionConnection> = new Map();
   private longDistanceOnly: boolean = false; // Filter to show only long-distance trains
-
-  constructor(mots: string[] = ['rail']) {
+  private selectedJourneyId: string | null = null; // train_id subscribed on the stop-sequence channel
+  private journey: Journey | null = null;
+  private selectedStationId: string | null = null; // UIC number subscribed on the timetable channel
+  private departures: Map<string, Departure> = new Map();
+  private disruptions: Map<string, Disruption> = new Map();
+
+  // Transport defaults to the one selected via ?transport= or VITE_GEOPS_TRANSPORT
+  constructor(
+    mots: string[] = ['rail'],
+    createTransport: TransportFactory = createTransportFactory(),
+    restClient: TrackerRestClient | null = createSnapshotClient(),
+    watchlist: Watchlist = new Watchlist(),
+  ) {
     this.currentMots = mots;
+    this.createTransport = createTransport;
+    this.restClient = restClient;
+    this.watchlist = watchlist;
+
+    this.worker = new Worker(new URL('../workers/tracker.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<TrackerWorkerResponse>) => {
+      this.handleWorkerMessage(event.data);
+    };
+    this.worker.onerror = (error) => {
+      console.error('Tracker worker error:', error);
+    };
+    this.postToWorker({ type: 'transport-filter', mots });
+    this.postToWorker({ type: 'long-distance-prefixes', prefixes: GEOPS_CONFIG.TENANT.longDistancePrefixes });
+
     this.connect();
     this.startAnimation();
   }
 
-  private connect() {
-    const url = `${GEOPS_CONFIG.WEBSOCKET_URL}?key=${GEOPS_CONFIG.API_KEY}`;
+  private postToWorker(request: TrackerWorkerRequest) {
+    this.worker.postMessage(request);
+  }
 
-    this.ws = new WebSocket(url);
+  private handleWorkerMessage(response: TrackerWorkerResponse) {
+    switch (response.type) {
+      case 'trajectory':
+        this.vehicles.set(response.slot, { id: response.vehicleId, attributes: response.attributes, stale: false });
+        this.events.emit(
+          'trajectory',
+          response.vehicleId,
+          response.coords,
+          response.attributes.type,
+          response.attributes.state,
+        );
+        this.emitAlerts(this.watchlist.evaluateTrajectory(response.vehicleId, response.attributes, this.clock.now()));
+        break;
+      case 'delete':
+        this.vehicles.delete(response.slot);
+        this.history.delete(response.vehicleId);
+        this.events.emit('delete', response.vehicleId, response.reason);
+        this.emitAlerts(this.watchlist.evaluateDelete(response.vehicleId, response.reason, this.clock.now()));
+        break;
+      case 'positions':
+        this.updateVehiclePositions(response.now, response.slots, response.positions);
+        break;
+      case 'stats':
+        this.messageStats = response.stats;
+        break;
+      case 'journey':
+        // Ignore late updates for a vehicle that is no longer selected
+        if (response.journey.trainId === this.selectedJourneyId) {
+          this.journey = response.journey;
+          this.events.emit('journey', this.journey);
+        }
+        break;
+      case 'departures':
+        if (response.stationId === this.selectedStationId) {
+          this.mergeDepartures(response.departures);
+        }
+        break;
+      case 'disruptions':
+        for (const disruption of response.disruptions) {
+          this.disruptions.set(disruption.id, disruption);
+        }
+        this.events.emit('disruptions', this.getDisruptions());
+        break;
+    }
+  }
+
+  private emitAlerts(alerts: WatchAlert[]) {
+    for (const alert of alerts) {
+      this.events.emit('alert', alert);
+    }
+  }
+
+  private connect() {
+    this.setConnectionState(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+    this.ws = this.createTransport();
 
     this.ws.onopen = () => {
       this.isConnected = true;
+      this.reconnectAttempts = 0;
+      this.setConnectionState('open');
+      // Trajectories kept from before a connection drop must be confirmed by the new subscription
+      if (this.vehicles.size > 0) {
+        this.startResync();
+      }
       // Subscribe to current bbox if one was set before connection
       if (this.currentBBox) {
         this.subscribeToBBox();
       }
+      this.subscribeToJourney();
+      this.subscribeToStation();
+      this.subscribeToNewsticker();
       this.startPing();
     };
 
-    this.ws.onmessage = (event) => {
-      this.handleMessage(event.data);
-    };
+    this.ws.onmessage = (data) => this.handleFrame(data);
 
     this.ws.onerror = (error) => {
       console.error('WebSocket error:', error);
     };
 
-    this.ws.onclose = () => {
+    this.ws.onclose = (event) => {
       this.isConnected = false;
       this.stopPing();
-      this.reconnectTimeout = window.setTimeout(() => this.connect(), WEBSOCKET_CONFIG.RECONNECT_DELAY);
+      this.ws = null;
+
+      // A rejected API key will be rejected again, so stop retrying
+      if (isAuthFailure(event)) {
+        console.error(`Tracker connection rejected (${event.code}): ${event.reason}`);
+        this.setConnectionState('failed', event.reason || 'Authentication failed');
+        return;
+      }
+
+      this.scheduleReconnect();
     };
   }
 
+  // Frames of the main connection and of all pinned regions end up in the same store
+  private handleFrame(data: string) {
+    if (this.recorder) {
+      this.recorder.record(data);
+    }
+    this.postToWorker({ type: 'frame', data });
+  }
+
+  private scheduleReconnect() {
+    const delay = getReconnectDelay(this.reconnectAttempts);
+    this.reconnectAttempts++;
+    this.setConnectionState('reconnecting');
+    this.reconnectTimeout = window.setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.connect();
+    }, delay);
+  }
+
+  // Start a new subscription generation; anything still on the old one after the
+  // grace period missed its deleted_vehicles message while offline and is dropped
+  private startResync() {
+    this.subscriptionGeneration++;
+    const generation = this.subscriptionGeneration;
+    this.postToWorker({ type: 'start-generation', generation });
+
+    if (this.resyncTimeout) {
+      clearTimeout(this.resyncTimeout);
+    }
+    this.resyncTimeout = window.setTimeout(() => {
+      this.resyncTimeout = null;
+      this.postToWorker({ type: 'drop-stale', generation });
+    }, WEBSOCKET_CONFIG.RESYNC_GRACE_PERIOD);
+  }
+
+  private setConnectionState(state: ConnectionState, reason?: string) {
+    if (this.connectionState === state && this.connectionError === reason) return;
+    this.connectionState = state;
+    this.connectionError = reason;
+    this.events.emit('connection', state, reason);
+  }
+
+  // Close the current transport without triggering a reconnect
+  private closeTransport() {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    if (this.resyncTimeout) {
+      clearTimeout(this.resyncTimeout);
+      this.resyncTimeout = null;
+    }
+    this.stopPing();
+    this.isConnected = false;
+    if (this.ws) {
+      this.ws.onclose = null;
+      this.ws.onmessage = null;
+      this.ws.close();
+      this.ws = null;
+    }
+  }
+
+  // Switch to another transport (e.g. a session replay) and its clock
+  // All current vehicles are removed; the new transport starts from an empty store
+  // Pinned regions follow live data only; a replay already contains what was subscribed while recording
+  setTransport(createTransport: TransportFactory, clock: Clock = this.simulationClock) {
+    this.closeTransport();
+    this.cancelSnapshot();
+    for (const region of this.regions.values()) {
+      region.close();
+    }
+    this.postToWorker({ type: 'clear' });
+
+    this.createTransport = createTransport;
+    this.clock = clock;
+    this.reconnectAttempts = 0;
+    this.connect();
+
+    // Back to live data: bootstrap the emptied store again
+    const live = clock === this.simulationClock;
+    if (live) {
+      this.fetchSnapshot();
+    }
+    for (const [id, region] of this.regions) {
+      const replacement = this.createRegion(region.bbox, region.zoomLevel);
+      this.regions.set(id, replacement);
+      if (live) replacement.connect();
+    }
+  }
+
+  // Capture raw frames with their receive time (pass null to detach)
+  setRecorder(recorder: SessionRecorder | null) {
+    this.recorder = recorder;
+  }
+
+  // Clock currently used for interpolation (the simulation clock or a replay)
+  getClock(): Clock {
+    return this.clock;
+  }
+
+  // Time the received data refers to: wall-clock for live data, whatever the time slider shows;
+  // a replay's own time during replays. Expiry is measured against it, not the simulated time.
+  private getDataTime(): number {
+    return this.clock === this.simulationClock ? Date.now() : this.clock.now();
+  }
+
+  // Offset, pause and speed control for live data
+  getSimulationClock(): SimulationClock {
+    return this.simulationClock;
+  }
+
   private startPing() {
     this.pingInterval = window.setInterval(() => {
       if (this.ws && this.isConnected) {
@@ -126,16 +556,17 @@ export class GeopsApiService {
 
   private animationFrame: number | null = null;
   private lastUpdateTime = 0;
-  private isAnimating = false; // Lock to prevent concurrent animation updates
+  private isAnimating = false; // Lock while the worker computes a position batch
+  private lastStatsRequestTime = 0;
   private lastFpsUpdateTime = 0;
   private frameCount = 0;
   private fpsCalculationStart = 0;
 
   // Get animation interval based on number of vehicles
   // More vehicles = slower animation to reduce CPU load
-  // FPS is computed over ~1s windows and reported via onFpsUpdate
+  // FPS is computed over ~1s windows and emitted as 'fps' event
   private getAnimationInterval(): number {
-    const count = this.trajectories.size;
+    const count = this.vehicles.size;
     const { VEHICLE_THRESHOLDS, INTERVALS_MS } = ANIMATION_CONFIG;
     for (let i = 0; i < VEHICLE_THRESHOLDS.length; i++) {
       if (count < VEHICLE_THRESHOLDS[i]) return INTERVALS_MS[i];
@@ -154,9 +585,7 @@ export class GeopsApiService {
           return;
         }
 
-        this.isAnimating = true;
-        this.updateVehiclePositions();
-        this.frameCount++;
+        this.requestVehiclePositions(timestamp);
 
         // Initialize FPS calculation start time
         if (this.fpsCalculationStart === 0) {
@@ -168,9 +597,7 @@ export class GeopsApiService {
           const elapsedSeconds = (timestamp - this.fpsCalculationStart) / 1000;
           const fps = elapsedSeconds > 0 ? this.frameCount / elapsedSeconds : 0;
 
-          if (this.onFpsUpdate) {
-            this.onFpsUpdate(fps);
-          }
+          this.events.emit('fps', fps);
 
           this.lastFpsUpdateTime = timestamp;
           // Reset FPS calculation for next period
@@ -179,7 +606,6 @@ export class GeopsApiService {
         }
 
         this.lastUpdateTime = timestamp;
-        this.isAnimating = false;
       }
       this.animationFrame = requestAnimationFrame(animate);
     };
@@ -193,96 +619,333 @@ export class GeopsApiService {
     }
   }
 
-  // Build vehicle list from current trajectories
-  private buildVehicleList(): Vehicle[] {
-    const now = Date.now();
+  // Ask the worker for positions at the current (possibly simulated) time
+  private requestVehiclePositions(timestamp: number) {
+    const includeStats = timestamp - this.lastStatsRequestTime >= ANIMATION_CONFIG.STATS_UPDATE_INTERVAL;
+    if (includeStats) {
+      this.lastStatsRequestTime = timestamp;
+    }
+
+    if (this.vehicles.size === 0 && !includeStats) return;
+
+    this.isAnimating = true;
+    this.postToWorker({ type: 'tick', now: this.clock.now(), dataTime: this.getDataTime(), includeStats });
+  }
+
+  // Decode a position batch from the worker (interpolated at clock time now) into vehicles
+  private updateVehiclePositions(now: number, slots: Int32Array, positions: Float64Array) {
+    this.isAnimating = false;
+    this.frameCount++;
+
     const vehicles: Vehicle[] = [];
+    let recorded = false;
+    for (let i = 0; i < slots.length; i++) {
+      const entry = this.vehicles.get(slots[i]);
+      if (!entry) continue;
+
+      entry.stale = positions[i * POSITION_STRIDE + 3] === 1;
+      const vehicle: Vehicle = {
+        id: entry.id,
+        x: positions[i * POSITION_STRIDE],
+        y: positions[i * POSITION_STRIDE + 1],
+        rotation: positions[i * POSITION_STRIDE + 2],
+        stale: entry.stale,
+        ...entry.attributes,
+      };
+      vehicles.push(vehicle);
 
-    for (const trajectory of this.trajectories.values()) {
-      const position = this.interpolatePosition(trajectory.coords, trajectory.timeIntervals, now);
-
-      if (position) {
-        vehicles.push({
-          id: trajectory.id,
-          x: position.x,
-          y: position.y,
-          rotation: position.rotation,
-          lineName: trajectory.lineName,
-          lineColor: trajectory.lineColor,
-          destination: trajectory.destination,
-          delay: trajectory.delay,
-          type: trajectory.type,
-          state: trajectory.state,
-        });
+      // Stale positions are extrapolated, not where the vehicle went
+      if (!vehicle.stale) {
+        const point = { x: vehicle.x, y: vehicle.y, time: now, delay: vehicle.delay };
+        recorded = this.history.record(vehicle.id, point) || recorded;
       }
     }
+    if (recorded) {
+      this.history.enforceLimits(now);
+    }
 
-    return vehicles;
-  }
-
-  private updateVehiclePositions() {
-    if (!this.onVehicleUpdate || this.trajectories.size === 0) return;
-    this.onVehicleUpdate(this.buildVehicleList());
+    this.lastVehicles = vehicles;
+    if (vehicles.length > 0) {
+      this.events.emit('vehicles', vehicles);
+    }
   }
 
-  private subscribeToBBox() {
+  // bufferSize: number of buffered trajectories the tracker should re-send right away
+  private subscribeToBBox(bufferSize: number = WEBSOCKET_CONFIG.BUFFER_SIZE) {
     if (!this.ws || !this.isConnected || !this.currentBBox) return;
 
-    const { left, bottom, right, top } = this.currentBBox;
+    // Subscribe with a prefetch margin so vehicles just off screen are already there when panning
+    const { left, bottom, right, top } = expandBBox(this.currentBBox, this.prefetchMargin);
 
     // Subscribe to trajectories in visible area bounding box
     // Format: BBOX left bottom right top zoom [mots=rail,tram,bus,etc]
-    let bboxCommand = `BBOX ${left} ${bottom} ${right} ${top} ${WEBSOCKET_CONFIG.ZOOM_LEVEL}`;
+    // The zoom level selects how strongly the tracker generalizes the geometries
+    let bboxCommand = `BBOX ${left} ${bottom} ${right} ${top} ${this.zoomLevel}`;
 
-    if (this.currentMots.length > 0) {
-      bboxCommand += ` mots=${this.currentMots.join(',')}`;
+    const mots = this.getSubscribedMots();
+    if (mots.length > 0) {
+      bboxCommand += ` mots=${mots.join(',')}`;
     }
 
     this.ws.send(bboxCommand);
-    this.ws.send(`BUFFER ${WEBSOCKET_CONFIG.BUFFER_SIZE}`);
+    this.ws.send(`BUFFER ${bufferSize}`);
+  }
+
+  // Fetch and follow the stop sequence of the selected vehicle
+  private subscribeToJourney() {
+    if (!this.ws || !this.isConnected || !this.selectedJourneyId) return;
+
+    const channel = `stopsequence_${this.selectedJourneyId}`;
+    this.ws.send(`GET ${channel}`);
+    this.ws.send(`SUB ${channel}`);
+  }
+
+  // Select a vehicle whose journey (stops, platforms, per-stop delays) should be followed
+  // Pass null to unsubscribe; listeners get a 'journey' event for every update
+  selectJourney(trainId: string | null) {
+    if (trainId === this.selectedJourneyId) return;
+
+    if (this.selectedJourneyId && this.ws && this.isConnected) {
+      this.ws.send(`DEL stopsequence_${this.selectedJourneyId}`);
+    }
+
+    this.selectedJourneyId = trainId;
+    this.journey = null;
+    this.events.emit('journey', null);
+    this.subscribeToJourney();
+  }
+
+  // Latest journey of the selected vehicle (null until its stop sequence arrived)
+  getJourney(): Journey | null {
+    return this.journey;
+  }
+
+  // Disruption and news messages are followed for the whole session
+  private subscribeToNewsticker() {
+    if (!this.ws || !this.isConnected) return;
+
+    this.ws.send('GET newsticker');
+    this.ws.send('SUB newsticker');
+  }
+
+  // Newsticker messages that have not ended yet, newest first
+  getDisruptions(): Disruption[] {
+    const now = this.clock.now();
+    return [...this.disruptions.values()]
+      .filter((disruption) => disruption.end === undefined || disruption.end >= now)
+      .sort((a, b) => (b.start ?? 0) - (a.start ?? 0));
+  }
+
+  // Fetch and follow the departures of the selected station
+  private subscribeToStation() {
+    if (!this.ws || !this.isConnected || !this.selectedStationId) return;
+
+    const channel = `timetable_${this.selectedStationId}`;
+    this.ws.send(`GET ${channel}`);
+    this.ws.send(`SUB ${channel}`);
+  }
+
+  // Select a station (UIC number) whose departure board should be followed
+  // Pass null to unsubscribe; listeners get a 'departures' event for every update
+  selectStation(stationId: string | null) {
+    if (stationId === this.selectedStationId) return;
+
+    if (this.selectedStationId && this.ws && this.isConnected) {
+      this.ws.send(`DEL timetable_${this.selectedStationId}`);
+    }
+
+    this.selectedStationId = stationId;
+    this.departures.clear();
+    this.events.emit('departures', []);
+    this.subscribeToStation();
+  }
+
+  // Update or add departures and drop those that left more than the grace period ago
+  private mergeDepartures(departures: Departure[]) {
+    for (const departure of departures) {
+      this.departures.set(departure.id, departure);
+    }
+
+    // Pruned by data time: with the time slider ahead, departures still to come must stay for when it returns.
+    // Which departures are shown for the displayed time is up to the board.
+    const cutoff = this.getDataTime() - WEBSOCKET_CONFIG.DEPARTED_GRACE_PERIOD;
+    for (const [id, departure] of this.departures) {
+      if (departure.time < cutoff) {
+        this.departures.delete(id);
+      }
+    }
+
+    this.events.emit('departures', this.getDepartures());
+  }
+
+  // Departure board of the selected station, sorted by realtime departure
+  getDepartures(): Departure[] {
+    return [...this.departures.values()].sort((a, b) => a.time - b.time);
   }
 
   // Update the bounding box based on visible view extent (in Web Mercator / EPSG:3857)
-  updateBBox(left: number, bottom: number, right: number, top: number) {
+  // zoomLevel is the generalization level matching the view scale (defaults to the current one)
+  updateBBox(left: number, bottom: number, right: number, top: number, zoomLevel: number = this.zoomLevel) {
     const newBBox = { left, bottom, right, top };
 
-    // Check if bbox has changed significantly
+    // Check if bbox or level has changed significantly
     // Threshold ~5% for size and center shift to avoid excessive re-subscriptions
-    if (this.currentBBox && !this.hasBBoxChangedEnough(this.currentBBox, newBBox)) {
+    if (this.currentBBox && !this.hasBBoxChangedEnough(this.currentBBox, newBBox, this.zoomLevel, zoomLevel)) {
       return;
     }
 
-    // Remove trajectories outside the new bbox
-    // This is necessary because the server only sends updates for vehicles in the bbox,
-    // it doesn't send deletion messages for vehicles that left the visible area
-    for (const [id, trajectory] of this.trajectories) {
-      // Get the last known position from the trajectory
-      if (trajectory.coords.length > 0) {
-        const lastCoord = trajectory.coords[trajectory.coords.length - 1];
-        const x = lastCoord[0];
-        const y = lastCoord[1];
-
-        // Check if position is outside new bbox
-        if (x < newBBox.left || x > newBBox.right || y < newBBox.bottom || y > newBBox.top) {
-          this.trajectories.delete(id);
-          if (this.onVehicleDelete) {
-            this.onVehicleDelete(id);
-          }
-        }
-      }
+    const levelChanged = zoomLevel !== this.zoomLevel;
+    this.currentBBox = newBBox;
+    this.zoomLevel = zoomLevel;
+
+    // The first bbox is loaded over REST in parallel, so the map fills before the socket is up
+    if (this.snapshotPending) {
+      this.fetchSnapshot();
     }
 
-    this.currentBBox = newBBox;
+    // Remove trajectories that left every subscribed area (the server sends no deletes for them)
+    this.evictOutsideRegions();
 
     // Re-subscribe with new bbox
+    // On a new level, have every known trajectory re-sent so geometries are replaced at that level
+    this.subscribeToBBox(
+      levelChanged ? Math.max(WEBSOCKET_CONFIG.BUFFER_SIZE, this.vehicles.size) : WEBSOCKET_CONFIG.BUFFER_SIZE,
+    );
+  }
+
+  // Fetch the trajectories of the subscribed area over REST and merge them into the store
+  // The worker keeps whichever of snapshot and socket trajectory is more recent, so nothing is duplicated
+  private fetchSnapshot() {
+    if (!this.currentBBox) {
+      this.snapshotPending = true;
+      return;
+    }
+    this.snapshotPending = false;
+    // Replays bring their own data
+    if (!this.restClient || this.clock !== this.simulationClock) return;
+
+    this.cancelSnapshot();
+    const request = new AbortController();
+    this.snapshotRequest = request;
+    const bbox = expandBBox(this.currentBBox, this.prefetchMargin);
+
+    this.restClient
+      .fetchTrajectories(bbox, this.zoomLevel, this.getSubscribedMots(), request.signal)
+      .then((body) => {
+        if (!request.signal.aborted) this.handleFrame(createSnapshotFrame(body, bbox, false));
+      })
+      .catch((error: unknown) => {
+        if (request.signal.aborted) return;
+
+        // A rejected WebSocket handshake only reports close code 1006, so a wrong key shows up here first
+        if (isRestAuthFailure(error) && !this.isConnected) {
+          this.failAuthentication(error.message);
+          return;
+        }
+
+        // Not fatal: the socket's BUFFER fills the map as well, just later
+        console.warn('Trajectory snapshot failed:', error);
+      })
+      .finally(() => {
+        if (this.snapshotRequest === request) this.snapshotRequest = null;
+      });
+  }
+
+  // Stop all connections for good after the key was rejected
+  private failAuthentication(reason: string) {
+    console.error(`Tracker rejected the API key: ${reason}`);
+    this.closeTransport();
+    for (const region of this.regions.values()) {
+      region.close();
+    }
+    this.setConnectionState('failed', reason);
+  }
+
+  private cancelSnapshot() {
+    if (this.snapshotRequest) {
+      this.snapshotRequest.abort();
+      this.snapshotRequest = null;
+    }
+  }
+
+  // Generalization level of the current subscription
+  getZoomLevel(): number {
+    return this.zoomLevel;
+  }
+
+  // View bbox of the current subscription (without the prefetch margin), null before the first updateBBox
+  getBBox(): BBox | null {
+    return this.currentBBox ? { ...this.currentBBox } : null;
+  }
+
+  // Change the prefetch margin around the view (fraction of its width/height per side)
+  // Eviction keeps the EVICTION_HYSTERESIS on top of it
+  setPrefetchMargin(margin: number) {
+    if (margin === this.prefetchMargin) return;
+    this.prefetchMargin = Math.max(0, margin);
     this.subscribeToBBox();
   }
 
-  // Helper: determine if bbox change warrants resubscription
+  // Evict only vehicles outside the view and every pinned region, each with the hysteresis margin
+  private evictOutsideRegions() {
+    const { EVICTION_HYSTERESIS } = WEBSOCKET_CONFIG;
+    const bboxes: BBox[] = [...this.regions.values()].map((region) => expandBBox(region.bbox, EVICTION_HYSTERESIS));
+    if (this.currentBBox) {
+      bboxes.push(expandBBox(this.currentBBox, this.prefetchMargin + EVICTION_HYSTERESIS));
+    }
+    if (bboxes.length > 0) {
+      this.postToWorker({ type: 'evict-outside', bboxes });
+    }
+  }
+
+  // Follow another region besides the view, e.g. a second city shown in split screen
+  // Its vehicles are merged into the same store; adding an existing id replaces that region
+  addRegion(id: string, bbox: BBox, zoomLevel: number = WEBSOCKET_CONFIG.DEFAULT_ZOOM_LEVEL) {
+    this.regions.get(id)?.close();
+
+    const region = this.createRegion(bbox, zoomLevel);
+    this.regions.set(id, region);
+    if (this.clock === this.simulationClock) {
+      region.connect();
+    }
+    this.evictOutsideRegions();
+  }
+
+  // Stop following a pinned region; its vehicles are evicted unless the view or another region covers them
+  removeRegion(id: string) {
+    const region = this.regions.get(id);
+    if (!region) return;
+
+    region.close();
+    this.regions.delete(id);
+    this.evictOutsideRegions();
+  }
+
+  getRegionIds(): string[] {
+    return [...this.regions.keys()];
+  }
+
+  // Every region gets its own live transport factory, so its failed opens count towards
+  // its own polling fallback and not towards the main connection's (regions never replay)
+  private createRegion(bbox: BBox, zoomLevel: number): RegionConnection {
+    return new RegionConnection(
+      bbox,
+      zoomLevel,
+      createTransportFactory(),
+      () => this.getSubscribedMots(),
+      (data) => this.handleFrame(data),
+    );
+  }
+
+  // Helper: determine if bbox or level change warrants resubscription
   private hasBBoxChangedEnough(
     oldBBox: { left: number; bottom: number; right: number; top: number },
     newBBox: { left: number; bottom: number; right: number; top: number },
+    oldZoomLevel: number,
+    newZoomLevel: number,
   ): boolean {
+    if (oldZoomLevel !== newZoomLevel) return true;
+
     const threshold = WEBSOCKET_CONFIG.BBOX_CHANGE_THRESHOLD;
 
     const oldWidth = oldBBox.right - oldBBox.left;
@@ -308,261 +971,137 @@ export class GeopsApiService {
     );
   }
 
-  // Set transport filter without re-subscribing (use updateBBox after to apply)
+  // Set transport filter without re-subscribing the view (use updateBBox after to apply)
+  // Pinned regions have no updateBBox of their own and are re-subscribed here when the mots change
   setTransportFilter(mots: string[]) {
-    const previousMots = this.currentMots;
+    const changed = mots.length !== this.currentMots.length || !mots.every((mot) => this.currentMots.includes(mot));
     this.currentMots = mots;
-
     // Remove trajectories that no longer match the filter
-    if (previousMots.length !== mots.length || !previousMots.every((m) => mots.includes(m))) {
-      for (const [id, trajectory] of this.trajectories) {
-        if (!trajectory.type || !mots.includes(trajectory.type)) {
-          this.trajectories.delete(id);
-          if (this.onVehicleDelete) {
-            this.onVehicleDelete(id);
-          }
-        }
-      }
+    this.postToWorker({ type: 'transport-filter', mots });
+    if (changed) {
+      this.resubscribeRegions();
     }
   }
 
-  // Set whether to show only long-distance trains (IC, ICE, EC, IR, TGV, etc.)
-  setLongDistanceOnly(enabled: boolean) {
-    if (this.longDistanceOnly !== enabled) {
-      this.longDistanceOnly = enabled;
-      // Remove non-long-distance trains if filter is enabled
-      if (enabled) {
-        for (const [id, trajectory] of this.trajectories) {
-          if (trajectory.type === 'rail' && !isLongDistanceTrain(trajectory.lineName)) {
-            this.trajectories.delete(id);
-            if (this.onVehicleDelete) {
-              this.onVehicleDelete(id);
-            }
-          }
-        }
-      }
-    }
+  // Zoom-driven mots narrowed to the types of the user filter, so unwanted types are not downloaded
+  // If nothing is left, keep the zoom mots; the worker filter then drops everything
+  private getSubscribedMots(): string[] {
+    const types = this.filter.types;
+    if (!types?.length) return this.currentMots;
+
+    const mots = this.currentMots.filter((mot) => types.includes(mot));
+    return mots.length > 0 ? mots : this.currentMots;
   }
 
-  private handleMessage(data: string) {
-    try {
-      const message: WebSocketMessage = JSON.parse(data);
-      const { source, content } = message;
+  // Apply a user filter (see VehicleFilter); composes with setTransportFilter and setLongDistanceOnly
+  setFilter(filter: VehicleFilter) {
+    this.filter = filter;
+    this.postToWorker({ type: 'vehicle-filter', filter });
 
-      if (source === 'buffer' && Array.isArray(content)) {
-        // Handle buffered messages - each item is a full message object
-        for (const item of content as BufferedMessage[]) {
-          this.processBufferedItem(item);
-        }
-      } else if (source === 'trajectory') {
-        // Handle single trajectory update
-        this.processTrajectory(content as TrajectoryFeature);
-      } else if (source === 'deleted_vehicles') {
-        // Handle vehicle deletion - content is the train_id string
-        const trainId = content as string;
-        this.trajectories.delete(trainId);
-        if (this.onVehicleDelete) {
-          this.onVehicleDelete(trainId);
-        }
-      }
-    } catch {
-      // PONG responses and other non-JSON messages
-    }
+    // Re-subscribe so newly allowed types are sent and excluded ones no longer are
+    this.subscribeToBBox();
+    this.resubscribeRegions();
   }
 
-  private processBufferedItem(item: BufferedMessage) {
-    if (item.source === 'trajectory') {
-      this.processTrajectory(item.content as TrajectoryFeature);
-    } else if (item.source === 'deleted_vehicles') {
-      const trainId = item.content as string;
-      this.trajectories.delete(trainId);
-      if (this.onVehicleDelete) {
-        this.onVehicleDelete(trainId);
-      }
+  private resubscribeRegions() {
+    for (const region of this.regions.values()) {
+      region.subscribe();
     }
   }
 
-  private processTrajectory(feature: TrajectoryFeature) {
-    if (!feature || !feature.properties || !feature.geometry) {
-      return;
-    }
-
-    const { train_id, time_intervals, line, destination, delay, type, state } = feature.properties;
-    const coords = feature.geometry.coordinates;
-
-    if (!train_id || !time_intervals || !coords || coords.length === 0) return;
-
-    // Filter out non-long-distance trains when filter is enabled
-    if (this.longDistanceOnly && type === 'rail' && !isLongDistanceTrain(line?.name)) {
-      return;
-    }
-
-    // Store trajectory data for continuous animation
-    const trajectory: VehicleTrajectory = {
-      id: train_id,
-      coords,
-      timeIntervals: time_intervals,
-      lineName: line?.name,
-      lineColor: line?.color,
-      destination,
-      delay,
-      type,
-      state: state as VehicleState,
-    };
-
-    this.trajectories.set(train_id, trajectory);
-
-    // Notify trajectory listeners
-    if (this.onTrajectoryUpdate) {
-      this.onTrajectoryUpdate(train_id, coords, type);
-    }
+  getFilter(): VehicleFilter {
+    return this.filter;
   }
 
-  // Find the surrounding time intervals for a given timestamp
-  private findTimeIntervals(
-    timeIntervals: TimeInterval[],
-    now: number,
-  ): { prev: TimeInterval | null; next: TimeInterval | null } {
-    let prev: TimeInterval | null = null;
-    let next: TimeInterval | null = null;
-
-    for (const interval of timeIntervals) {
-      if (interval[0] <= now) {
-        prev = interval;
-      } else if (!next) {
-        next = interval;
-        break;
-      }
+  // Set whether to show only long-distance trains (IC, ICE, EC, IR, TGV, etc.; per tenant)
+  setLongDistanceOnly(enabled: boolean) {
+    if (this.longDistanceOnly !== enabled) {
+      this.longDistanceOnly = enabled;
+      // Remove non-long-distance trains if filter is enabled
+      this.postToWorker({ type: 'long-distance-only', enabled });
     }
-
-    return { prev, next };
   }
 
-  // Get position at a specific fraction along the coordinate path
-  private getPositionAtFraction(
-    coords: [number, number][],
-    fraction: number,
-    rotation: number,
-  ): { x: number; y: number; rotation: number } {
-    const idx = Math.min(Math.floor(fraction * (coords.length - 1)), coords.length - 1);
-    return {
-      x: coords[idx][0],
-      y: coords[idx][1],
-      rotation,
-    };
+  // Change dead-reckoning and removal times for one vehicle type (e.g. 'rail')
+  setStalenessPolicy(type: string, policy: StalenessPolicy) {
+    this.postToWorker({ type: 'staleness-policy', vehicleType: type, policy });
   }
 
-  // Interpolate position between two time intervals
-  private interpolateBetweenIntervals(
-    coords: [number, number][],
-    prev: TimeInterval,
-    next: TimeInterval,
-    now: number,
-  ): { x: number; y: number; rotation: number } {
-    const timeDiff = next[0] - prev[0];
-    const timeProgress = timeDiff > 0 ? (now - prev[0]) / timeDiff : 0;
-    const fraction = prev[1] + (next[1] - prev[1]) * timeProgress;
-
-    const totalLength = coords.length - 1;
-    const floatIdx = fraction * totalLength;
-    const idx = Math.floor(floatIdx);
-    const subFraction = floatIdx - idx;
-
-    if (idx >= coords.length - 1) {
-      return {
-        x: coords[coords.length - 1][0],
-        y: coords[coords.length - 1][1],
-        rotation: next[2],
-      };
-    }
-
-    // Linear interpolation between two coordinates
-    const x = coords[idx][0] + (coords[idx + 1][0] - coords[idx][0]) * subFraction;
-    const y = coords[idx][1] + (coords[idx + 1][1] - coords[idx][1]) * subFraction;
-    const rotation = prev[2] + (next[2] - prev[2]) * timeProgress;
-
-    return { x, y, rotation };
+  // Subscribe to an event; returns a disposer that removes the listener
+  on<K extends keyof GeopsApiEvents>(event: K, handler: EventHandler<GeopsApiEvents[K]>): Disposer {
+    return this.events.on(event, handler);
   }
 
-  private interpolatePosition(
-    coords: [number, number][],
-    timeIntervals: TimeInterval[],
-    now: number,
-  ): { x: number; y: number; rotation: number } | null {
-    if (timeIntervals.length === 0) return null;
-
-    const { prev, next } = this.findTimeIntervals(timeIntervals, now);
+  getConnectionState(): ConnectionState {
+    return this.connectionState;
+  }
 
-    // Past all intervals - use last position
-    if (!next && prev) {
-      return this.getPositionAtFraction(coords, prev[1], prev[2]);
-    }
+  // Reason for the last 'failed' state, if any
+  getConnectionError(): string | undefined {
+    return this.connectionError;
+  }
 
-    // Before all intervals - use first position
-    if (!prev && next) {
-      return this.getPositionAtFraction(coords, next[1], next[2]);
-    }
+  // Latest message validation counters reported by the worker
+  getMessageStats(): MessageStats {
+    return structuredClone(this.messageStats);
+  }
 
-    // Interpolate between intervals
-    if (prev && next) {
-      return this.interpolateBetweenIntervals(coords, prev, next, now);
-    }
+  // Vehicles from the latest position batch
+  getVehicles(): Vehicle[] {
+    return this.lastVehicles;
+  }
 
-    return null;
+  // Breadcrumb history of one vehicle, oldest first
+  getHistory(vehicleId: string): readonly HistoryPoint[] {
+    return this.history.get(vehicleId);
   }
 
-  onUpdate(callback: VehicleCallback) {
-    this.onVehicleUpdate = callback;
+  // Breadcrumb histories of all vehicles that have one
+  getHistories(): ReadonlyMap<string, readonly HistoryPoint[]> {
+    return this.history.getAll();
   }
 
-  onDelete(callback: DeleteCallback) {
-    this.onVehicleDelete = callback;
+  getHistoryLimits(): HistoryLimits {
+    return this.history.getLimits();
   }
 
-  onTrajectory(callback: TrajectoryCallback) {
-    this.onTrajectoryUpdate = callback;
+  // Change sampling interval, maximum age and point budgets of the breadcrumb history
+  setHistoryLimits(limits: Partial<HistoryLimits>) {
+    this.history.setLimits(limits);
+    this.history.enforceLimits(this.clock.now());
   }
 
-  onFps(callback: (_fps: number) => void) {
-    this.onFpsUpdate = callback;
+  // Watched trains and lines; edits apply from the next trajectory update
+  getWatchlist(): Watchlist {
+    return this.watchlist;
   }
 
-  getVehicles(): Vehicle[] {
-    return this.buildVehicleList();
-  }
-
-  getVehicleCounts(): {
-    rail: number;
-    tram: number;
-    bus: number;
-    total: number;
-  } {
-    let rail = 0;
-    let tram = 0;
-    let bus = 0;
-
-    for (const trajectory of this.trajectories.values()) {
-      if (trajectory.type === 'rail') {
-        rail++;
-      } else if (trajectory.type === 'tram') {
-        tram++;
-      } else if (trajectory.type === 'bus') {
-        bus++;
+  getVehicleCounts(): VehicleCounts {
+    const live = createTypeCounts();
+    const stale = createTypeCounts();
+    let cancelled = 0;
+
+    for (const entry of this.vehicles.values()) {
+      const mode = getTransportMode(entry.attributes.type);
+      if (mode) {
+        const counts = entry.stale ? stale : live;
+        counts[mode.countBucket]++;
+        counts.total++;
+        if (entry.attributes.state === 'JOURNEY_CANCELLED') cancelled++;
       }
     }
 
-    return { rail, tram, bus, total: rail + tram + bus };
+    return { ...live, stale, cancelled };
   }
 
   disconnect() {
-    if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout);
+    this.closeTransport();
+    this.cancelSnapshot();
+    for (const region of this.regions.values()) {
+      region.close();
     }
-    this.stopPing();
+    this.regions.clear();
     this.stopAnimation();
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
-    }
+    this.worker.terminate();
   }
 }
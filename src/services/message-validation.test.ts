@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  validateEnvelope,
+  validateNewstickerMessages,
+  validateSnapshot,
+  validateStopSequences,
+  validateTimetableDepartures,
+  validateTrajectoryFeature,
+} from './message-validation';
+
+function createTrajectory(properties: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    type: 'Feature',
+    geometry: {
+      type: 'LineString',
+      coordinates: [
+        [0, 0],
+        [10, 0],
+      ],
+    },
+    properties: {
+      train_id: 'sbb_1',
+      time_intervals: [
+        [1000, 0, 0],
+        [2000, 1, 0],
+      ],
+      ...properties,
+    },
+  };
+}
+
+describe('validateEnvelope', () => {
+  it('requires a source and content', () => {
+    expect(validateEnvelope({ source: 'trajectory', content: null }).ok).toBe(true);
+    expect(validateEnvelope({ content: {} })).toEqual({ ok: false, reason: 'missing source' });
+    expect(validateEnvelope({ source: 'trajectory' })).toEqual({
+      ok: false,
+      reason: "'trajectory' message without content",
+    });
+    expect(validateEnvelope('PONG')).toEqual({ ok: false, reason: 'message is not an object' });
+  });
+});
+
+describe('validateTrajectoryFeature', () => {
+  it('accepts a well-formed trajectory without warnings', () => {
+    const result = validateTrajectoryFeature(createTrajectory({ state: 'BOARDING', delay: 60000 }));
+    expect(result.ok).toBe(true);
+    expect(result.ok && result.warnings).toBeFalsy();
+  });
+
+  it('strips an unknown state and reports it as warning', () => {
+    const trajectory = createTrajectory({ state: 'TELEPORTING' });
+    const result = validateTrajectoryFeature(trajectory);
+    expect(result).toMatchObject({ ok: true, warnings: ['sbb_1: unknown state "TELEPORTING"'] });
+    expect(result.ok && result.value.properties.state).toBeUndefined();
+    // The message itself is left untouched
+    expect((trajectory.properties as Record<string, unknown>).state).toBe('TELEPORTING');
+  });
+
+  it('rejects broken geometries and time intervals', () => {
+    const noCoordinates = { ...createTrajectory(), geometry: { type: 'LineString', coordinates: [] } };
+    expect(validateTrajectoryFeature(noCoordinates)).toEqual({
+      ok: false,
+      reason: 'sbb_1: geometry has no coordinates',
+    });
+
+    const outside = createTrajectory({ time_intervals: [[1000, 1.5, 0]] });
+    expect(validateTrajectoryFeature(outside)).toEqual({
+      ok: false,
+      reason: 'sbb_1: time_intervals[0] fraction 1.5 is outside 0-1',
+    });
+
+    const backwards = createTrajectory({
+      time_intervals: [
+        [2000, 0, 0],
+        [1000, 1, 0],
+      ],
+    });
+    expect(validateTrajectoryFeature(backwards)).toEqual({
+      ok: false,
+      reason: 'sbb_1: time_intervals[1] is not monotonic',
+    });
+  });
+
+  it('rejects invalid properties', () => {
+    expect(validateTrajectoryFeature(createTrajectory({ train_id: '' }))).toEqual({
+      ok: false,
+      reason: 'trajectory without train_id',
+    });
+    expect(validateTrajectoryFeature(createTrajectory({ delay: 'late' }))).toEqual({
+      ok: false,
+      reason: 'sbb_1: delay is not a number',
+    });
+    expect(validateTrajectoryFeature(createTrajectory({ line: { id: 1 } }))).toEqual({
+      ok: false,
+      reason: 'sbb_1: line without name',
+    });
+  });
+});
+
+describe('validateSnapshot', () => {
+  const bbox = { left: 0, bottom: 0, right: 10, top: 10 };
+
+  it('accepts a feature collection or a plain feature array', () => {
+    expect(validateSnapshot({ bbox, replace: true, data: { features: [] } })).toEqual({
+      ok: true,
+      value: { bbox, replace: true, features: [] },
+    });
+    expect(validateSnapshot({ bbox, replace: false, data: [] }).ok).toBe(true);
+  });
+
+  it('rejects a missing box, flag or feature list', () => {
+    expect(validateSnapshot({ bbox: { ...bbox, top: Infinity }, replace: true, data: [] }).ok).toBe(false);
+    expect(validateSnapshot({ bbox, data: [] }).ok).toBe(false);
+    expect(validateSnapshot({ bbox, replace: true, data: {} }).ok).toBe(false);
+  });
+});
+
+describe('channel content', () => {
+  it('validates the stations of stop sequences', () => {
+    expect(validateStopSequences([{ stations: [{ stationName: 'Bern', departureTime: 1000 }] }]).ok).toBe(true);
+    expect(validateStopSequences([{ stations: [{ stationName: 'Bern', departureTime: '10:00' }] }])).toEqual({
+      ok: false,
+      reason: 'stop sequence 0: station 0 has an invalid departureTime',
+    });
+  });
+
+  it('wraps single departures and news messages in a list', () => {
+    expect(validateTimetableDepartures({ train_id: 'sbb_1', time: 1000 })).toMatchObject({ ok: true });
+    expect(validateTimetableDepartures({ train_id: 'sbb_1', time: 1000, to: 'Bern' }).ok).toBe(false);
+    expect(validateNewstickerMessages({ id: 7, title: 'Works', lines: ['S1'] })).toMatchObject({ ok: true });
+    expect(validateNewstickerMessages({ id: 7, title: 'Works', lines: 'S1' }).ok).toBe(false);
+  });
+});
@@ -0,0 +1,305 @@
+import { VEHICLE_STATES } from '../types/geops';
+
+import type {
+  NewstickerMessage,
+  StopSequence,
+  TimeInterval,
+  TimetableDeparture,
+  TrajectoryFeature,
+  TrajectorySnapshot,
+  WebSocketMessage,
+} from '../types/geops';
+
+// Runtime validation of tracker payloads
+// Rejects malformed messages with a human-readable reason instead of letting them
+// corrupt the trajectory store (or hiding protocol changes behind a catch-all).
+// Values that are well-formed but unknown to this app (e.g. a new vehicle state) are
+// normalized instead and reported as warnings.
+
+export type ValidationResult<T> = { ok: true; value: T; warnings?: string[] } | { ok: false; reason: string };
+
+// Message categories used for accounting
+export type MessageCategory =
+  'envelope' | 'buffer' | 'trajectory' | 'deleted_vehicles' | 'stopsequence' | 'timetable' | 'newsticker' | 'snapshot';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function ok<T>(value: T): ValidationResult<T> {
+  return { ok: true, value };
+}
+
+function fail<T>(reason: string): ValidationResult<T> {
+  return { ok: false, reason };
+}
+
+// { source, timestamp, content, client_reference }
+export function validateEnvelope(data: unknown): ValidationResult<WebSocketMessage> {
+  if (!isRecord(data)) return fail('message is not an object');
+  if (typeof data.source !== 'string' || !data.source) return fail('missing source');
+  if (!('content' in data)) return fail(`'${data.source}' message without content`);
+  return ok(data as unknown as WebSocketMessage);
+}
+
+// Buffer content is an array of full message envelopes
+export function validateBuffer(content: unknown): ValidationResult<unknown[]> {
+  if (!Array.isArray(content)) return fail('buffer content is not an array');
+  return ok(content);
+}
+
+// Snapshot content is { bbox, replace, data } where data is the REST response:
+// a GeoJSON FeatureCollection of trajectories (or a plain feature array)
+export function validateSnapshot(content: unknown): ValidationResult<TrajectorySnapshot> {
+  if (!isRecord(content)) return fail('snapshot content is not an object');
+
+  const { bbox, replace, data } = content;
+  if (
+    !isRecord(bbox) ||
+    !isFiniteNumber(bbox.left) ||
+    !isFiniteNumber(bbox.bottom) ||
+    !isFiniteNumber(bbox.right) ||
+    !isFiniteNumber(bbox.top)
+  ) {
+    return fail('snapshot bbox is not a finite box');
+  }
+  if (typeof replace !== 'boolean') return fail('snapshot replace flag is not a boolean');
+
+  const features: unknown = isRecord(data) ? data.features : data;
+  if (!Array.isArray(features)) return fail('snapshot data has no features array');
+
+  return ok({
+    bbox: { left: bbox.left, bottom: bbox.bottom, right: bbox.right, top: bbox.top },
+    replace,
+    features,
+  });
+}
+
+// deleted_vehicles content is the train_id string
+export function validateDeletedVehicle(content: unknown): ValidationResult<string> {
+  if (typeof content !== 'string' || !content) return fail('deleted vehicle id is not a non-empty string');
+  return ok(content);
+}
+
+function validateCoordinates(coordinates: unknown): string | null {
+  if (!Array.isArray(coordinates)) return 'coordinates is not an array';
+  if (coordinates.length === 0) return 'geometry has no coordinates';
+  for (let i = 0; i < coordinates.length; i++) {
+    const position: unknown = coordinates[i];
+    if (
+      !Array.isArray(position) ||
+      position.length < 2 ||
+      !isFiniteNumber(position[0]) ||
+      !isFiniteNumber(position[1])
+    ) {
+      return `coordinate ${i} is not a finite [x, y] pair`;
+    }
+  }
+  return null;
+}
+
+// Each interval is [timestamp_ms, fraction 0-1, rotation_radians], timestamps non-decreasing
+function validateTimeIntervals(intervals: unknown): string | null {
+  if (!Array.isArray(intervals)) return 'time_intervals is not an array';
+  if (intervals.length === 0) return 'time_intervals is empty';
+
+  let previousTime = -Infinity;
+  for (let i = 0; i < intervals.length; i++) {
+    const interval: unknown = intervals[i];
+    if (!Array.isArray(interval) || interval.length < 3) return `time_intervals[${i}] is not a triple`;
+
+    const [time, fraction, rotation] = interval as TimeInterval;
+    if (!isFiniteNumber(time)) return `time_intervals[${i}] has an invalid timestamp`;
+    if (!isFiniteNumber(fraction) || fraction < 0 || fraction > 1) {
+      return `time_intervals[${i}] fraction ${String(fraction)} is outside 0-1`;
+    }
+    if (!isFiniteNumber(rotation)) return `time_intervals[${i}] has an invalid rotation`;
+    if (time < previousTime) return `time_intervals[${i}] is not monotonic`;
+    previousTime = time;
+  }
+  return null;
+}
+
+export function validateTrajectoryFeature(content: unknown): ValidationResult<TrajectoryFeature> {
+  if (!isRecord(content)) return fail('trajectory is not an object');
+
+  const { geometry, properties } = content;
+  if (!isRecord(geometry)) return fail('trajectory without geometry');
+  if (!isRecord(properties)) return fail('trajectory without properties');
+
+  const trainId = properties.train_id;
+  if (typeof trainId !== 'string' || !trainId) return fail('trajectory without train_id');
+
+  const coordinatesError = validateCoordinates(geometry.coordinates);
+  if (coordinatesError) return fail(`${trainId}: ${coordinatesError}`);
+
+  const intervalsError = validateTimeIntervals(properties.time_intervals);
+  if (intervalsError) return fail(`${trainId}: ${intervalsError}`);
+
+  const { state, delay, line } = properties;
+  if (delay !== undefined && delay !== null && !isFiniteNumber(delay)) {
+    return fail(`${trainId}: delay is not a number`);
+  }
+  if (line !== undefined && line !== null && (!isRecord(line) || typeof line.name !== 'string')) {
+    return fail(`${trainId}: line without name`);
+  }
+
+  // A state added by the backend must not make the vehicle vanish: drop it (drawn as driving)
+  if (state !== undefined && state !== null && !VEHICLE_STATES.includes(state as (typeof VEHICLE_STATES)[number])) {
+    return {
+      ok: true,
+      value: { ...content, properties: { ...properties, state: undefined } } as unknown as TrajectoryFeature,
+      warnings: [`${trainId}: unknown state ${JSON.stringify(state)}`],
+    };
+  }
+
+  return ok(content as unknown as TrajectoryFeature);
+}
+
+function isOptionalNumber(value: unknown): boolean {
+  return value === undefined || value === null || isFiniteNumber(value);
+}
+
+const STATION_TIME_FIELDS = [
+  'aimedArrivalTime',
+  'arrivalTime',
+  'arrivalDelay',
+  'aimedDepartureTime',
+  'departureTime',
+  'departureDelay',
+] as const;
+
+// stopsequence_<train_id> content is an array of journeys, each with its stations
+export function validateStopSequences(content: unknown): ValidationResult<StopSequence[]> {
+  if (!Array.isArray(content)) return fail('stop sequence content is not an array');
+
+  for (let i = 0; i < content.length; i++) {
+    const sequence: unknown = content[i];
+    if (!isRecord(sequence)) return fail(`stop sequence ${i} is not an object`);
+    if (!Array.isArray(sequence.stations)) return fail(`stop sequence ${i} without stations`);
+
+    for (let j = 0; j < sequence.stations.length; j++) {
+      const station: unknown = sequence.stations[j];
+      if (!isRecord(station)) return fail(`stop sequence ${i}: station ${j} is not an object`);
+      if (typeof station.stationName !== 'string') return fail(`stop sequence ${i}: station ${j} without name`);
+
+      const invalidField = STATION_TIME_FIELDS.find((field) => !isOptionalNumber(station[field]));
+      if (invalidField) return fail(`stop sequence ${i}: station ${j} has an invalid ${invalidField}`);
+      if (station.cancelled !== undefined && typeof station.cancelled !== 'boolean') {
+        return fail(`stop sequence ${i}: station ${j} has an invalid cancelled flag`);
+      }
+    }
+  }
+
+  return ok(content as StopSequence[]);
+}
+
+// timetable_<uic> content is a single departure or an array of departures
+export function validateTimetableDepartures(content: unknown): ValidationResult<TimetableDeparture[]> {
+  const departures: unknown[] = Array.isArray(content) ? content : [content];
+
+  for (let i = 0; i < departures.length; i++) {
+    const departure: unknown = departures[i];
+    if (!isRecord(departure)) return fail(`departure ${i} is not an object`);
+
+    const trainId = departure.train_id;
+    if (typeof trainId !== 'string' || !trainId) return fail(`departure ${i} without train_id`);
+    if (!isFiniteNumber(departure.time)) return fail(`${trainId}: departure time is not a number`);
+    if (!isOptionalNumber(departure.ris_aimed_time)) return fail(`${trainId}: invalid scheduled time`);
+
+    const { to, platform, line } = departure;
+    if (to !== undefined && (!Array.isArray(to) || !to.every((name) => typeof name === 'string'))) {
+      return fail(`${trainId}: destination is not a list of names`);
+    }
+    if (platform !== undefined && platform !== null && typeof platform !== 'string') {
+      return fail(`${trainId}: platform is not a string`);
+    }
+    if (line !== undefined && line !== null && (!isRecord(line) || typeof line.name !== 'string')) {
+      return fail(`${trainId}: line without name`);
+    }
+  }
+
+  return ok(departures as TimetableDeparture[]);
+}
+
+function isOptionalTime(value: unknown): boolean {
+  return value === undefined || value === null || isFiniteNumber(value) || typeof value === 'string';
+}
+
+// newsticker content is a single message or an array of messages
+export function validateNewstickerMessages(content: unknown): ValidationResult<NewstickerMessage[]> {
+  const messages: unknown[] = Array.isArray(content) ? content : [content];
+
+  for (let i = 0; i < messages.length; i++) {
+    const message: unknown = messages[i];
+    if (!isRecord(message)) return fail(`news message ${i} is not an object`);
+
+    const { id, title, content: text, lines } = message;
+    if (typeof id !== 'string' && !isFiniteNumber(id)) return fail(`news message ${i} without id`);
+    if (typeof title !== 'string') return fail(`news message ${id} without title`);
+    if (text !== undefined && text !== null && typeof text !== 'string') {
+      return fail(`news message ${id}: content is not a string`);
+    }
+    if (
+      lines !== undefined &&
+      lines !== null &&
+      (!Array.isArray(lines) || !lines.every((l) => typeof l === 'string'))
+    ) {
+      return fail(`news message ${id}: lines is not a list of names`);
+    }
+    if (!isOptionalTime(message.start) || !isOptionalTime(message.end)) {
+      return fail(`news message ${id}: invalid validity period`);
+    }
+  }
+
+  return ok(messages as NewstickerMessage[]);
+}
+
+// Validation bookkeeping exposed by GeopsApiService.getMessageStats()
+export interface MessageRejection {
+  category: MessageCategory;
+  reason: string;
+  timestamp: number;
+}
+
+export interface MessageStats {
+  frames: number; // raw frames received
+  pong: number; // PONG replies to our PING keep-alive
+  nonJson: number; // other frames that are not JSON
+  ignored: number; // valid envelopes with a source we do not handle
+  accepted: Record<MessageCategory, number>;
+  rejected: Record<MessageCategory, number>;
+  recentRejections: MessageRejection[]; // newest last, bounded by MAX_RECENT_REJECTIONS
+  warnings: Record<MessageCategory, number>; // accepted messages with normalized values
+  recentWarnings: MessageRejection[]; // newest last, bounded by MAX_RECENT_REJECTIONS
+}
+
+export const MAX_RECENT_REJECTIONS = 20;
+
+export function createMessageStats(): MessageStats {
+  const emptyCounts = (): Record<MessageCategory, number> => ({
+    envelope: 0,
+    buffer: 0,
+    trajectory: 0,
+    deleted_vehicles: 0,
+    stopsequence: 0,
+    timetable: 0,
+    newsticker: 0,
+    snapshot: 0,
+  });
+  return {
+    frames: 0,
+    pong: 0,
+    nonJson: 0,
+    ignored: 0,
+    accepted: emptyCounts(),
+    rejected: emptyCounts(),
+    recentRejections: [],
+    warnings: emptyCounts(),
+    recentWarnings: [],
+  };
+}
@@ -0,0 +1,647 @@
+import { parseBBoxCommand } from '../types/geops';
+
+import type { TrackerTransport, TransportCloseEvent } from './transport';
+import type {
+  BBox,
+  NewstickerMessage,
+  StopSequence,
+  TimeInterval,
+  TimetableDeparture,
+  TrajectoryFeature,
+  VehicleState,
+  WebSocketMessage,
+} from '../types/geops';
+
+// Local stand-in for the geOps tracker WebSocket
+// Speaks the same text protocol (BBOX / BUFFER / PING, GET / SUB / DEL on the
+// stopsequence_<train_id>, timetable_<uic> and newsticker channels)
+// and generates synthetic vehicles for every mode of transport that move along generated geometries
+// with realistic time_intervals, so the app can run without an API key or network access.
+
+// Mock configuration
+const MOCK_CONFIG = {
+  SEED: 42,
+  OPEN_DELAY: 50, // ms before onopen fires
+  LATENCY: 20, // ms simulated network latency per frame
+  TICK_INTERVAL: 1000,
+  // The live tracker re-sends trajectories periodically, so do we
+  REFRESH_INTERVAL: 10000,
+  VERTEX_COUNT: 14,
+  DWELL_MS: 20000,
+  // Share of journeys that are cancelled; they wait at their origin as JOURNEY_CANCELLED
+  CANCELLED_SHARE: 0.08,
+};
+
+interface MockLine {
+  name: string;
+  color: string;
+}
+
+interface MockMode {
+  count: number; // vehicles kept alive in the current bbox
+  lines: MockLine[];
+  routeLength: number; // meters (EPSG:3857 units)
+  speed: number; // meters per second
+  stops: number; // intermediate stops with dwell time
+  maxDelay: number; // ms
+}
+
+// Synthetic fleet per mode of transport
+const MOCK_MODES: Record<string, MockMode> = {
+  rail: {
+    count: 20,
+    lines: [
+      { name: 'IC 1', color: '#eb0000' },
+      { name: 'IR 36', color: '#eb0000' },
+      { name: 'RE 12', color: '#eb0000' },
+      { name: 'S3', color: '#0079c7' },
+      { name: 'S12', color: '#0079c7' },
+    ],
+    routeLength: 20000,
+    speed: 30,
+    stops: 3,
+    maxDelay: 600000,
+  },
+  tram: {
+    count: 15,
+    lines: [
+      { name: '2', color: '#e3000b' },
+      { name: '4', color: '#1b3f8b' },
+      { name: '11', color: '#4bae4f' },
+    ],
+    routeLength: 4000,
+    speed: 8,
+    stops: 5,
+    maxDelay: 300000,
+  },
+  bus: {
+    count: 20,
+    lines: [
+      { name: '31', color: '#95bfd4' },
+      { name: '33', color: '#d7c41e' },
+      { name: '72', color: '#b1599e' },
+    ],
+    routeLength: 5000,
+    speed: 9,
+    stops: 6,
+    maxDelay: 420000,
+  },
+  subway: {
+    count: 4,
+    lines: [{ name: 'M2', color: '#e2001a' }],
+    routeLength: 6000,
+    speed: 12,
+    stops: 4,
+    maxDelay: 120000,
+  },
+  coach: {
+    count: 3,
+    lines: [{ name: 'X10', color: '#475569' }],
+    routeLength: 15000,
+    speed: 22,
+    stops: 2,
+    maxDelay: 600000,
+  },
+  ferry: {
+    count: 3,
+    lines: [{ name: '3300', color: '#0ea5e9' }],
+    routeLength: 6000,
+    speed: 6,
+    stops: 2,
+    maxDelay: 300000,
+  },
+  gondola: {
+    count: 2,
+    lines: [{ name: 'LB', color: '#f97316' }],
+    routeLength: 2500,
+    speed: 5,
+    stops: 0,
+    maxDelay: 60000,
+  },
+  cablecar: {
+    count: 1,
+    lines: [{ name: 'PB', color: '#ea580c' }],
+    routeLength: 3000,
+    speed: 8,
+    stops: 0,
+    maxDelay: 60000,
+  },
+  funicular: {
+    count: 2,
+    lines: [{ name: 'UBB', color: '#ca8a04' }],
+    routeLength: 1200,
+    speed: 4,
+    stops: 0,
+    maxDelay: 60000,
+  },
+};
+
+const MOCK_DESTINATIONS = [
+  'Zürich HB',
+  'Bern',
+  'Basel SBB',
+  'Luzern',
+  'Winterthur',
+  'Oerlikon',
+  'Stadelhofen',
+  'Bellevue',
+  'Paradeplatz',
+  'Hardbrücke',
+];
+
+// Names of intermediate stops (the last stop is the destination)
+const MOCK_STOP_NAMES = [
+  'Altstetten',
+  'Enge',
+  'Wiedikon',
+  'Wipkingen',
+  'Hottingen',
+  'Seebach',
+  'Affoltern',
+  'Schwamendingen',
+  'Wollishofen',
+  'Höngg',
+  'Fluntern',
+  'Witikon',
+];
+
+// UIC-like id of the mock stop MOCK_STOP_NAMES[index]
+function getMockStationId(index: number): string {
+  return `85${String((index % MOCK_STOP_NAMES.length) + 1).padStart(5, '0')}`;
+}
+
+// Mock stop that answers for a station the mock does not know, e.g. a real UIC number from the
+// stop search; the same station always maps to the same mock stop
+function getStandInStationId(stationId: string): string {
+  let hash = 0;
+  for (let i = 0; i < stationId.length; i++) {
+    hash = (hash * 31 + stationId.charCodeAt(i)) >>> 0;
+  }
+  return getMockStationId(hash);
+}
+
+const STOP_SEQUENCE_PREFIX = 'stopsequence_';
+const TIMETABLE_PREFIX = 'timetable_';
+const NEWSTICKER_SOURCE = 'newsticker';
+
+// Synthetic disruption messages for some of the mock lines (validity relative to now)
+const MOCK_NEWS: { title: string; content: string; lines: string[]; startOffset: number; duration: number }[] = [
+  {
+    title: 'Signal failure between Altstetten and Wiedikon',
+    content: '<p>Delays of up to <b>15 minutes</b> are expected on line IC 1.</p>',
+    lines: ['IC 1'],
+    startOffset: -900000,
+    duration: 7200000,
+  },
+  {
+    title: 'Construction works at Bellevue',
+    content: 'Trams of line 4 are diverted. Please allow extra travel time.',
+    lines: ['4'],
+    startOffset: -3600000,
+    duration: 86400000,
+  },
+];
+
+interface MockStop {
+  name: string;
+  stationId: string;
+  coordinate: [number, number];
+  arrival: number | null; // realtime, null at the origin
+  departure: number | null; // realtime, null at the terminus
+}
+
+interface MockVehicle {
+  id: string;
+  mot: string;
+  line: MockLine;
+  lineId: number;
+  destination: string;
+  delay: number;
+  cancelled: boolean;
+  coords: [number, number][];
+  timeIntervals: TimeInterval[];
+  dwellStarts: number[]; // timestamps when a dwell (BOARDING) begins
+  stops: MockStop[]; // origin, intermediate stops and terminus
+  lastSent: number;
+}
+
+// Transports created so far (pinned regions open one each)
+let mockInstances = 0;
+
+// Deterministic PRNG (mulberry32) so demos are reproducible
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export class MockTrackerTransport implements TrackerTransport {
+  onopen: (() => void) | null = null;
+  onmessage: ((_data: string) => void) | null = null;
+  onerror: ((_error: unknown) => void) | null = null;
+  onclose: ((_event: TransportCloseEvent) => void) | null = null;
+
+  private random = createRandom(MOCK_CONFIG.SEED);
+  private vehicles: Map<string, MockVehicle> = new Map();
+  private bbox: BBox | null = null;
+  private mots: string[] = [];
+  private instance = ++mockInstances; // keeps vehicle ids unique across parallel connections
+  private nextVehicleId = 1;
+  private stopSequenceSubscriptions: Set<string> = new Set(); // train_ids
+  private timetableSubscriptions: Set<string> = new Set(); // station ids
+  private lastTimetableSent = 0;
+  private tickInterval: number | null = null;
+  private closed = false;
+
+  constructor() {
+    window.setTimeout(() => {
+      if (this.closed) return;
+      this.tickInterval = window.setInterval(() => this.tick(), MOCK_CONFIG.TICK_INTERVAL);
+      if (this.onopen) this.onopen();
+    }, MOCK_CONFIG.OPEN_DELAY);
+  }
+
+  send(data: string) {
+    if (this.closed) return;
+
+    const parts = data.trim().split(/\s+/);
+    const command = parts[0]?.toUpperCase();
+
+    if (command === 'PING') {
+      this.emit('PONG');
+    } else if (command === 'BBOX') {
+      const parsed = parseBBoxCommand(parts);
+      if (parsed) {
+        // Without mots= every mode is served
+        this.subscribe(parsed.bbox, parsed.mots.length > 0 ? parsed.mots : Object.keys(MOCK_MODES));
+      }
+    } else if (command === 'BUFFER') {
+      const size = parseInt(parts[1], 10);
+      this.sendBuffer(Number.isFinite(size) ? size : 100);
+    } else if (command === 'GET' || command === 'SUB' || command === 'DEL') {
+      this.handleChannelCommand(command, parts[1] ?? '');
+    }
+  }
+
+  // Channel commands for the simulated stop-sequence and timetable channels
+  private handleChannelCommand(command: string, channel: string) {
+    if (channel.startsWith(STOP_SEQUENCE_PREFIX)) {
+      this.handleStopSequenceCommand(command, channel.slice(STOP_SEQUENCE_PREFIX.length));
+    } else if (channel.startsWith(TIMETABLE_PREFIX)) {
+      this.handleTimetableCommand(command, channel.slice(TIMETABLE_PREFIX.length));
+    } else if (channel === NEWSTICKER_SOURCE && command === 'GET') {
+      // The mock news never change, so SUB has nothing to push
+      this.sendNewsticker(Date.now());
+    }
+  }
+
+  private sendNewsticker(now: number) {
+    const content: NewstickerMessage[] = MOCK_NEWS.map((news, index) => ({
+      id: index + 1,
+      title: news.title,
+      content: news.content,
+      lines: news.lines,
+      start: new Date(now + news.startOffset).toISOString(),
+      end: new Date(now + news.startOffset + news.duration).toISOString(),
+    }));
+
+    this.emit(JSON.stringify(this.createMessage(NEWSTICKER_SOURCE, content)));
+  }
+
+  private handleTimetableCommand(command: string, stationId: string) {
+    if (command === 'DEL') {
+      this.timetableSubscriptions.delete(stationId);
+      return;
+    }
+    if (command === 'SUB') {
+      this.timetableSubscriptions.add(stationId);
+    }
+    this.sendTimetable(stationId, Date.now());
+  }
+
+  // Upcoming departures of every mock vehicle calling at the station
+  // Any station id is answered: unknown ones get the departures of a stand-in mock stop
+  private sendTimetable(stationId: string, now: number) {
+    const content: TimetableDeparture[] = [];
+    const isMockStation = MOCK_STOP_NAMES.some((_name, index) => getMockStationId(index) === stationId);
+    const mockStationId = isMockStation ? stationId : getStandInStationId(stationId);
+
+    for (const vehicle of this.vehicles.values()) {
+      const stop = vehicle.stops.find((candidate) => candidate.stationId === mockStationId);
+      if (!stop || stop.departure === null || stop.departure < now) continue;
+
+      content.push({
+        call_id: `${vehicle.id}-${stationId}`,
+        train_id: vehicle.id,
+        line: { id: vehicle.lineId, name: vehicle.line.name, color: vehicle.line.color },
+        to: [vehicle.destination],
+        platform: this.getPlatform(vehicle, vehicle.stops.indexOf(stop)),
+        time: stop.departure,
+        ris_aimed_time: stop.departure - vehicle.delay,
+        state: vehicle.cancelled ? 'JOURNEY_CANCELLED' : null,
+      });
+    }
+
+    this.emit(JSON.stringify(this.createMessage(`${TIMETABLE_PREFIX}${stationId}`, content)));
+  }
+
+  private handleStopSequenceCommand(command: string, trainId: string) {
+    if (command === 'DEL') {
+      this.stopSequenceSubscriptions.delete(trainId);
+      return;
+    }
+    if (command === 'SUB') {
+      this.stopSequenceSubscriptions.add(trainId);
+    }
+
+    const vehicle = this.vehicles.get(trainId);
+    if (vehicle) {
+      this.sendStopSequence(vehicle);
+    }
+  }
+
+  private sendStopSequence(vehicle: MockVehicle) {
+    const content: StopSequence[] = [this.toStopSequence(vehicle)];
+    this.emit(JSON.stringify(this.createMessage(`${STOP_SEQUENCE_PREFIX}${vehicle.id}`, content)));
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+    window.setTimeout(() => {
+      if (this.onclose) this.onclose({ code: 1000, reason: 'Mock tracker closed' });
+    }, 0);
+  }
+
+  // Replace the fleet with one matching the new bbox and mots
+  private subscribe(bbox: BBox, mots: string[]) {
+    this.bbox = bbox;
+    this.mots = mots.filter((mot) => mot in MOCK_MODES);
+
+    // Keep vehicles that still start inside the bbox with an allowed mot
+    for (const [id, vehicle] of this.vehicles) {
+      const [x, y] = vehicle.coords[0];
+      const inside = x >= bbox.left && x <= bbox.right && y >= bbox.bottom && y <= bbox.top;
+      if (!inside || !this.mots.includes(vehicle.mot)) {
+        this.vehicles.delete(id);
+      }
+    }
+
+    this.fillFleet(Date.now(), true);
+  }
+
+  private sendBuffer(size: number) {
+    const now = Date.now();
+    const items: WebSocketMessage[] = [];
+
+    for (const vehicle of this.vehicles.values()) {
+      if (items.length >= size) break;
+      items.push(this.createMessage('trajectory', this.toFeature(vehicle, now)));
+      vehicle.lastSent = now;
+    }
+
+    this.emit(JSON.stringify(this.createMessage('buffer', items)));
+  }
+
+  private tick() {
+    if (!this.bbox) return;
+    const now = Date.now();
+
+    for (const [id, vehicle] of this.vehicles) {
+      const end = vehicle.timeIntervals[vehicle.timeIntervals.length - 1][0];
+      if (now > end) {
+        // Journey finished: tell the client, spawn a replacement below
+        this.vehicles.delete(id);
+        this.emit(JSON.stringify(this.createMessage('deleted_vehicles', id)));
+      } else if (now - vehicle.lastSent >= MOCK_CONFIG.REFRESH_INTERVAL) {
+        // Occasionally drift the delay like a live feed would
+        if (this.random() < 0.2) {
+          vehicle.delay = Math.max(0, vehicle.delay + Math.round((this.random() - 0.4) * 60000));
+        }
+        vehicle.lastSent = now;
+        this.emit(JSON.stringify(this.createMessage('trajectory', this.toFeature(vehicle, now))));
+        if (this.stopSequenceSubscriptions.has(id)) {
+          this.sendStopSequence(vehicle);
+        }
+      }
+    }
+
+    this.fillFleet(now, false);
+
+    // Refresh subscribed departure boards at the trajectory refresh rate
+    if (now - this.lastTimetableSent >= MOCK_CONFIG.REFRESH_INTERVAL) {
+      this.lastTimetableSent = now;
+      for (const stationId of this.timetableSubscriptions) {
+        this.sendTimetable(stationId, now);
+      }
+    }
+  }
+
+  // Top up the fleet to the configured count per mot
+  private fillFleet(now: number, midJourney: boolean) {
+    if (!this.bbox) return;
+
+    for (const mot of this.mots) {
+      const mode = MOCK_MODES[mot];
+      let count = 0;
+      for (const vehicle of this.vehicles.values()) {
+        if (vehicle.mot === mot) count++;
+      }
+      for (; count < mode.count; count++) {
+        const vehicle = this.createVehicle(mot, mode, this.bbox, now, midJourney);
+        this.vehicles.set(vehicle.id, vehicle);
+      }
+    }
+  }
+
+  private createVehicle(mot: string, mode: MockMode, bbox: BBox, now: number, midJourney: boolean): MockVehicle {
+    const width = bbox.right - bbox.left;
+    const height = bbox.top - bbox.bottom;
+    const diagonal = Math.hypot(width, height);
+    const routeLength = Math.min(mode.routeLength, diagonal * 0.5);
+
+    // Random walk with gentle curvature and uneven vertex spacing
+    const coords: [number, number][] = [[bbox.left + this.random() * width, bbox.top - this.random() * height]];
+    let heading = this.random() * Math.PI * 2;
+    const baseSegment = routeLength / (MOCK_CONFIG.VERTEX_COUNT - 1);
+    for (let i = 1; i < MOCK_CONFIG.VERTEX_COUNT; i++) {
+      heading += (this.random() - 0.5) * 0.6;
+      const segment = baseSegment * (0.4 + this.random() * 1.2);
+      const [px, py] = coords[i - 1];
+      coords.push([px + Math.cos(heading) * segment, py + Math.sin(heading) * segment]);
+    }
+
+    // Cumulative length per vertex, used to map fractions to headings
+    const cumulative = [0];
+    for (let i = 1; i < coords.length; i++) {
+      const [ax, ay] = coords[i - 1];
+      const [bx, by] = coords[i];
+      cumulative.push(cumulative[i - 1] + Math.hypot(bx - ax, by - ay));
+    }
+    const totalLength = cumulative[cumulative.length - 1];
+
+    const segmentAt = (fraction: number): number => {
+      const distance = fraction * totalLength;
+      let idx = 0;
+      while (idx < cumulative.length - 2 && cumulative[idx + 1] < distance) idx++;
+      return idx;
+    };
+
+    const rotationAt = (fraction: number): number => {
+      const idx = segmentAt(fraction);
+      const [ax, ay] = coords[idx];
+      const [bx, by] = coords[idx + 1];
+      return Math.atan2(by - ay, bx - ax);
+    };
+
+    const positionAt = (fraction: number): [number, number] => {
+      const idx = segmentAt(fraction);
+      const [ax, ay] = coords[idx];
+      const [bx, by] = coords[idx + 1];
+      const length = cumulative[idx + 1] - cumulative[idx];
+      const t = length > 0 ? Math.min(1, (fraction * totalLength - cumulative[idx]) / length) : 0;
+      return [ax + (bx - ax) * t, ay + (by - ay) * t];
+    };
+
+    // Drive between evenly spaced stops, dwelling at each one
+    const driveMs = (totalLength / mode.speed) * 1000;
+    const durationMs = driveMs + mode.stops * MOCK_CONFIG.DWELL_MS;
+    // On a fresh subscription, vehicles are already somewhere along their journey
+    const start = midJourney ? now - this.random() * durationMs * 0.8 : now;
+
+    const vehicleNumber = this.nextVehicleId++;
+    const stopName = (index: number) => MOCK_STOP_NAMES[(vehicleNumber + index) % MOCK_STOP_NAMES.length];
+    const stopId = (index: number) => getMockStationId(vehicleNumber + index);
+
+    const timeIntervals: TimeInterval[] = [[start, 0, rotationAt(0)]];
+    const dwellStarts: number[] = [];
+    const stops: MockStop[] = [
+      { name: stopName(0), stationId: stopId(0), coordinate: positionAt(0), arrival: null, departure: start },
+    ];
+    let time = start;
+    let previousFraction = 0;
+    for (let stop = 1; stop <= mode.stops; stop++) {
+      const fraction = stop / (mode.stops + 1);
+      time += (fraction - previousFraction) * driveMs;
+      const arrival = Math.round(time);
+      timeIntervals.push([arrival, fraction, rotationAt(fraction)]);
+      dwellStarts.push(arrival);
+      time += MOCK_CONFIG.DWELL_MS;
+      timeIntervals.push([Math.round(time), fraction, rotationAt(fraction)]);
+      stops.push({
+        name: stopName(stop),
+        stationId: stopId(stop),
+        coordinate: positionAt(fraction),
+        arrival,
+        departure: Math.round(time),
+      });
+      previousFraction = fraction;
+    }
+    time += (1 - previousFraction) * driveMs;
+    timeIntervals.push([Math.round(time), 1, rotationAt(1)]);
+
+    const lineIndex = Math.floor(this.random() * mode.lines.length);
+    const delay = this.random() < 0.6 ? 0 : Math.round(this.random() * mode.maxDelay);
+    const destination = MOCK_DESTINATIONS[Math.floor(this.random() * MOCK_DESTINATIONS.length)];
+    const cancelled = this.random() < MOCK_CONFIG.CANCELLED_SHARE;
+    stops.push({
+      name: destination,
+      stationId: stopId(mode.stops + 1),
+      coordinate: positionAt(1),
+      arrival: Math.round(time),
+      departure: null,
+    });
+
+    return {
+      id: `mock-${this.instance}-${mot}-${vehicleNumber}`,
+      mot,
+      line: mode.lines[lineIndex],
+      lineId: lineIndex + 1,
+      destination,
+      delay,
+      cancelled,
+      coords,
+      // A cancelled journey keeps its schedule (and stops) but never leaves the origin
+      timeIntervals: cancelled
+        ? [
+            [start, 0, rotationAt(0)],
+            [Math.round(time), 0, rotationAt(0)],
+          ]
+        : timeIntervals,
+      dwellStarts: cancelled ? [] : dwellStarts,
+      stops,
+      lastSent: 0,
+    };
+  }
+
+  private toFeature(vehicle: MockVehicle, now: number): TrajectoryFeature {
+    const boarding = vehicle.dwellStarts.some((t) => now >= t && now < t + MOCK_CONFIG.DWELL_MS);
+    const state: VehicleState = vehicle.cancelled ? 'JOURNEY_CANCELLED' : boarding ? 'BOARDING' : 'DRIVING';
+
+    return {
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: vehicle.coords },
+      properties: {
+        train_id: vehicle.id,
+        line: { id: vehicle.lineId, name: vehicle.line.name, color: vehicle.line.color },
+        type: vehicle.mot,
+        time_intervals: vehicle.timeIntervals,
+        delay: vehicle.delay,
+        state,
+        destination: vehicle.destination,
+      },
+    };
+  }
+
+  // Trains get a platform per stop, trams and buses none
+  private getPlatform(vehicle: MockVehicle, stopIndex: number): string | null {
+    return vehicle.mot === 'rail' ? String(((vehicle.lineId + stopIndex) % 8) + 1) : null;
+  }
+
+  // Realtime times follow the trajectory; scheduled times are realtime minus the current delay
+  private toStopSequence(vehicle: MockVehicle): StopSequence {
+    const scheduled = (time: number | null) => (time === null ? null : time - vehicle.delay);
+    const delay = (time: number | null) => (time === null ? null : vehicle.delay);
+
+    return {
+      id: vehicle.id,
+      shortName: vehicle.line.name,
+      color: vehicle.line.color,
+      type: vehicle.mot,
+      destination: vehicle.destination,
+      stations: vehicle.stops.map((stop, index) => ({
+        stationId: stop.stationId,
+        stationName: stop.name,
+        coordinate: stop.coordinate,
+        platform: this.getPlatform(vehicle, index),
+        aimedArrivalTime: scheduled(stop.arrival),
+        arrivalTime: stop.arrival,
+        arrivalDelay: delay(stop.arrival),
+        aimedDepartureTime: scheduled(stop.departure),
+        departureTime: stop.departure,
+        departureDelay: delay(stop.departure),
+        cancelled: vehicle.cancelled,
+      })),
+    };
+  }
+
+  private createMessage(source: string, content: unknown): WebSocketMessage {
+    return { source, timestamp: Date.now(), content, client_reference: null };
+  }
+
+  // Deliver a frame asynchronously, like a real socket would
+  private emit(data: string) {
+    window.setTimeout(() => {
+      if (!this.closed && this.onmessage) this.onmessage(data);
+    }, MOCK_CONFIG.LATENCY);
+  }
+}
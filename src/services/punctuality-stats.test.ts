@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+
+import { PunctualityStats } from './punctuality-stats';
+
+import type { Vehicle } from '../types/geops';
+
+const MINUTE = 60000;
+
+function createVehicle(id: string, delay: number | undefined, attributes: Partial<Vehicle> = {}): Vehicle {
+  return { id, x: 0, y: 0, rotation: 0, stale: false, lineName: 'S1', type: 'rail', delay, ...attributes };
+}
+
+describe('PunctualityStats', () => {
+  it('computes shares, mean and nearest-rank percentiles', () => {
+    const stats = new PunctualityStats();
+    const vehicles = Array.from({ length: 10 }, (_, i) => createVehicle(`v${i}`, (i + 1) * MINUTE));
+    stats.record(vehicles, 0);
+
+    const { overall } = stats.getSummary();
+    expect(overall.samples).toBe(10);
+    expect(overall.shares).toEqual({ 'on-time': 0, 'delayed': 0.4, 'very-delayed': 0.6 });
+    expect(overall.meanDelay).toBe(5.5 * MINUTE);
+    expect(overall.p50Delay).toBe(5 * MINUTE);
+    expect(overall.p90Delay).toBe(9 * MINUTE);
+    expect(overall.maxDelay).toBe(10 * MINUTE);
+  });
+
+  it('returns zero figures without samples', () => {
+    const { overall, from, to } = new PunctualityStats().getSummary();
+    expect(overall).toEqual({
+      samples: 0,
+      shares: { 'on-time': 0, 'delayed': 0, 'very-delayed': 0 },
+      meanDelay: 0,
+      p50Delay: 0,
+      p90Delay: 0,
+      maxDelay: 0,
+    });
+    expect([from, to]).toEqual([0, 0]);
+  });
+
+  it('leaves out cancelled journeys and vehicles without realtime data', () => {
+    const stats = new PunctualityStats();
+    stats.record(
+      [
+        createVehicle('a', 0),
+        createVehicle('b', undefined),
+        createVehicle('c', 20 * MINUTE, { state: 'JOURNEY_CANCELLED' }),
+      ],
+      0,
+    );
+    const summary = stats.getSummary();
+    expect(summary.overall.samples).toBe(1);
+    expect(summary.offenders.map((offender) => offender.id)).toEqual(['a']);
+  });
+
+  it('keeps one sample round per interval within the window', () => {
+    const stats = new PunctualityStats();
+    stats.setWindow(2 * MINUTE);
+    stats.record([createVehicle('a', 0)], 0);
+    stats.record([createVehicle('a', 10 * MINUTE)], 10000); // within the sample interval: not sampled
+    expect(stats.getSummary().overall.samples).toBe(1);
+
+    stats.record([createVehicle('a', 2 * MINUTE)], MINUTE);
+    stats.record([createVehicle('a', 3 * MINUTE)], 2 * MINUTE);
+    stats.record([createVehicle('a', 4 * MINUTE)], 3 * MINUTE);
+    const summary = stats.getSummary();
+    expect([summary.from, summary.to]).toEqual([MINUTE, 3 * MINUTE]);
+    expect(summary.overall.meanDelay).toBe(3 * MINUTE);
+  });
+
+  it('starts over when the clock jumps back', () => {
+    const stats = new PunctualityStats();
+    stats.record([createVehicle('a', 0)], 10 * MINUTE);
+    stats.record([createVehicle('a', 5 * MINUTE)], MINUTE);
+    const summary = stats.getSummary();
+    expect([summary.from, summary.to]).toEqual([MINUTE, MINUTE]);
+    expect(summary.overall.samples).toBe(1);
+  });
+
+  it('groups by line and mode and drills down into one line', () => {
+    const stats = new PunctualityStats();
+    stats.record(
+      [
+        createVehicle('a', 2 * MINUTE),
+        createVehicle('b', 4 * MINUTE),
+        createVehicle('c', 0, { lineName: '1', type: 'tram' }),
+        createVehicle('d', 6 * MINUTE, { lineName: '1', type: 'bus' }),
+      ],
+      0,
+    );
+    stats.record([createVehicle('a', 0), createVehicle('b', 6 * MINUTE)], MINUTE);
+
+    const summary = stats.getSummary();
+    expect(summary.byLine.map((line) => [line.key, line.samples, line.vehicles])).toEqual([
+      ['rail:S1', 4, 2],
+      ['tram:1', 1, 1],
+      ['bus:1', 1, 1],
+    ]);
+    expect(summary.byMode.map((mode) => [mode.type, mode.samples])).toEqual([
+      ['rail', 4],
+      ['tram', 1],
+      ['bus', 1],
+    ]);
+
+    const details = stats.getLineDetails('rail:S1');
+    expect(details?.trend).toEqual([
+      { time: 0, meanDelay: 3 * MINUTE },
+      { time: MINUTE, meanDelay: 3 * MINUTE },
+    ]);
+    expect(details?.vehicles.map((vehicle) => [vehicle.id, vehicle.delay])).toEqual([
+      ['b', 6 * MINUTE],
+      ['a', 0],
+    ]);
+    expect(stats.getLineDetails('rail:S2')).toBeNull();
+  });
+});
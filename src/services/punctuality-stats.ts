@@ -0,0 +1,266 @@
+import { getDelayCategory } from '../types/geops';
+
+import type { DelayCategory, Vehicle } from '../types/geops';
+
+// Rolling punctuality statistics for the operations dashboard
+// Vehicles are sampled periodically and every sample within the window counts once, so the
+// figures are weighted by time in service ("share of vehicle-minutes on time").
+
+// Statistics configuration
+const STATS_CONFIG = {
+  SAMPLE_INTERVAL: 30000, // ms of clock time between two samples
+  WINDOW: 900000, // 15 minutes
+  MAX_OFFENDERS: 10,
+};
+
+// Punctuality of a set of delay samples (delays in ms)
+export interface PunctualityFigures {
+  samples: number;
+  shares: Record<DelayCategory, number>; // 0..1, sum to 1 (all 0 without samples)
+  meanDelay: number;
+  p50Delay: number;
+  p90Delay: number;
+  maxDelay: number;
+}
+
+export interface LineStatistics extends PunctualityFigures {
+  key: string; // type and line name, see getLineKey
+  lineName: string;
+  type?: string;
+  lineColor?: string;
+  vehicles: number; // distinct vehicles seen in the window
+}
+
+export interface ModeStatistics extends PunctualityFigures {
+  type: string;
+  vehicles: number;
+}
+
+// Vehicle with the highest current delay
+export interface DelayOffender {
+  id: string;
+  lineName?: string;
+  type?: string;
+  destination?: string;
+  delay: number;
+}
+
+export interface PunctualitySummary {
+  from: number; // clock time of the oldest sample in the window
+  to: number; // clock time of the newest sample
+  overall: PunctualityFigures;
+  byLine: LineStatistics[];
+  byMode: ModeStatistics[];
+  offenders: DelayOffender[];
+}
+
+// Drill-down of one line
+export interface LineDetails {
+  line: LineStatistics;
+  vehicles: DelayOffender[]; // current vehicles of the line, most delayed first
+  trend: { time: number; meanDelay: number }[]; // mean delay per sample, oldest first
+}
+
+interface DelaySample {
+  vehicleId: string;
+  lineKey: string;
+  lineName: string;
+  lineColor?: string;
+  type: string;
+  delay: number;
+}
+
+interface SampleRound {
+  time: number;
+  samples: DelaySample[];
+}
+
+const UNKNOWN_LINE = '?';
+const UNKNOWN_TYPE = 'other';
+
+// The same line name can exist for several modes (tram 1, bus 1)
+function getLineKey(type: string, lineName: string): string {
+  return `${type}:${lineName}`;
+}
+
+// Nearest-rank percentile (p in 0..100)
+function percentile(sortedDelays: number[], p: number): number {
+  if (sortedDelays.length === 0) return 0;
+  const index = Math.min(sortedDelays.length - 1, Math.ceil((p / 100) * sortedDelays.length) - 1);
+  return sortedDelays[Math.max(0, index)];
+}
+
+function computeFigures(delays: number[]): PunctualityFigures {
+  const shares: Record<DelayCategory, number> = { 'on-time': 0, 'delayed': 0, 'very-delayed': 0 };
+  if (delays.length === 0) {
+    return { samples: 0, shares, meanDelay: 0, p50Delay: 0, p90Delay: 0, maxDelay: 0 };
+  }
+
+  let sum = 0;
+  for (const delay of delays) {
+    shares[getDelayCategory(delay)]++;
+    sum += delay;
+  }
+  for (const category of Object.keys(shares) as DelayCategory[]) {
+    shares[category] /= delays.length;
+  }
+
+  const sorted = [...delays].sort((a, b) => a - b);
+  return {
+    samples: delays.length,
+    shares,
+    meanDelay: sum / delays.length,
+    p50Delay: percentile(sorted, 50),
+    p90Delay: percentile(sorted, 90),
+    maxDelay: sorted[sorted.length - 1],
+  };
+}
+
+function toOffender(vehicle: Vehicle): DelayOffender {
+  return {
+    id: vehicle.id,
+    lineName: vehicle.lineName,
+    type: vehicle.type,
+    destination: vehicle.destination,
+    delay: vehicle.delay ?? 0,
+  };
+}
+
+// Vehicles whose delay counts: cancelled journeys and vehicles without realtime data are left out
+function hasDelay(vehicle: Vehicle): vehicle is Vehicle & { delay: number } {
+  return vehicle.delay !== undefined && vehicle.state !== 'JOURNEY_CANCELLED';
+}
+
+export class PunctualityStats {
+  private rounds: SampleRound[] = [];
+  private currentVehicles: Vehicle[] = [];
+  private window: number = STATS_CONFIG.WINDOW;
+
+  // Feed the latest vehicles (e.g. from the 'vehicles' event) at clock time now
+  // Only one sample per SAMPLE_INTERVAL is kept; the current vehicles are always updated for the offenders
+  record(vehicles: Vehicle[], now: number) {
+    this.currentVehicles = vehicles;
+
+    const last = this.rounds[this.rounds.length - 1];
+    // The clock jumped back (time control, replay): start over
+    if (last && now < last.time) {
+      this.rounds = [];
+    } else if (last && now - last.time < STATS_CONFIG.SAMPLE_INTERVAL) {
+      return;
+    }
+
+    const samples: DelaySample[] = vehicles.filter(hasDelay).map((vehicle) => {
+      const lineName = vehicle.lineName || UNKNOWN_LINE;
+      const type = vehicle.type || UNKNOWN_TYPE;
+      return {
+        vehicleId: vehicle.id,
+        lineKey: getLineKey(type, lineName),
+        lineName,
+        lineColor: vehicle.lineColor,
+        type,
+        delay: vehicle.delay,
+      };
+    });
+    this.rounds.push({ time: now, samples });
+
+    const cutoff = now - this.window;
+    while (this.rounds.length > 0 && this.rounds[0].time < cutoff) {
+      this.rounds.shift();
+    }
+  }
+
+  // Length of the rolling window in ms
+  setWindow(window: number) {
+    this.window = Math.max(STATS_CONFIG.SAMPLE_INTERVAL, window);
+  }
+
+  getWindow(): number {
+    return this.window;
+  }
+
+  clear() {
+    this.rounds = [];
+    this.currentVehicles = [];
+  }
+
+  getSummary(): PunctualitySummary {
+    const all: number[] = [];
+    const lines = new Map<string, { sample: DelaySample; delays: number[]; vehicles: Set<string> }>();
+    const modes = new Map<string, { delays: number[]; vehicles: Set<string> }>();
+
+    for (const round of this.rounds) {
+      for (const sample of round.samples) {
+        all.push(sample.delay);
+
+        let line = lines.get(sample.lineKey);
+        if (!line) {
+          line = { sample, delays: [], vehicles: new Set() };
+          lines.set(sample.lineKey, line);
+        }
+        line.delays.push(sample.delay);
+        line.vehicles.add(sample.vehicleId);
+
+        let mode = modes.get(sample.type);
+        if (!mode) {
+          mode = { delays: [], vehicles: new Set() };
+          modes.set(sample.type, mode);
+        }
+        mode.delays.push(sample.delay);
+        mode.vehicles.add(sample.vehicleId);
+      }
+    }
+
+    const byLine: LineStatistics[] = [...lines].map(([key, line]) => ({
+      key,
+      lineName: line.sample.lineName,
+      type: line.sample.type,
+      lineColor: line.sample.lineColor,
+      vehicles: line.vehicles.size,
+      ...computeFigures(line.delays),
+    }));
+    const byMode: ModeStatistics[] = [...modes].map(([type, mode]) => ({
+      type,
+      vehicles: mode.vehicles.size,
+      ...computeFigures(mode.delays),
+    }));
+
+    const offenders = this.currentVehicles
+      .filter(hasDelay)
+      .sort((a, b) => b.delay - a.delay)
+      .slice(0, STATS_CONFIG.MAX_OFFENDERS)
+      .map(toOffender);
+
+    return {
+      from: this.rounds.length > 0 ? this.rounds[0].time : 0,
+      to: this.rounds.length > 0 ? this.rounds[this.rounds.length - 1].time : 0,
+      overall: computeFigures(all),
+      byLine,
+      byMode,
+      offenders,
+    };
+  }
+
+  // Figures, current vehicles and delay trend of one line (key from LineStatistics.key)
+  getLineDetails(key: string): LineDetails | null {
+    const line = this.getSummary().byLine.find((candidate) => candidate.key === key);
+    if (!line) return null;
+
+    const trend: LineDetails['trend'] = [];
+    for (const round of this.rounds) {
+      const delays = round.samples.filter((sample) => sample.lineKey === key).map((sample) => sample.delay);
+      if (delays.length > 0) {
+        trend.push({ time: round.time, meanDelay: delays.reduce((sum, delay) => sum + delay, 0) / delays.length });
+      }
+    }
+
+    const vehicles = this.currentVehicles
+      .filter(
+        (vehicle) =>
+          hasDelay(vehicle) && getLineKey(vehicle.type || UNKNOWN_TYPE, vehicle.lineName || UNKNOWN_LINE) === key,
+      )
+      .map(toOffender)
+      .sort((a, b) => b.delay - a.delay);
+
+    return { line, vehicles, trend };
+  }
+}
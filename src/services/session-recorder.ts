@@ -0,0 +1,102 @@
+// Records the raw tracker message stream so sessions can be replayed later
+// File format: NDJSON, one RecordedFrame per line, in receive order
+
+export interface RecordedFrame {
+  receivedAt: number; // epoch ms when the frame arrived
+  data: string; // raw frame as received (JSON envelope or e.g. PONG)
+}
+
+// Recorder configuration
+const RECORDER_CONFIG = {
+  // Cap on the recorded frame data (characters, about the size of the NDJSON download) so a tab can hold it
+  MAX_SIZE: 32 * 1024 * 1024,
+};
+
+export class SessionRecorder {
+  private frames: RecordedFrame[] = [];
+  private size = 0;
+  private recording = false;
+  private limitReached = false;
+
+  start() {
+    this.frames = [];
+    this.size = 0;
+    this.limitReached = false;
+    this.recording = true;
+  }
+
+  stop() {
+    this.recording = false;
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  getFrameCount(): number {
+    return this.frames.length;
+  }
+
+  // True when the last recording stopped on its own at the size cap
+  isLimitReached(): boolean {
+    return this.limitReached;
+  }
+
+  // Called by GeopsApiService for every raw frame it receives
+  record(data: string, receivedAt: number = Date.now()) {
+    if (!this.recording) return;
+
+    if (this.size + data.length > RECORDER_CONFIG.MAX_SIZE) {
+      console.warn(`Session recorder stopped: reached ${RECORDER_CONFIG.MAX_SIZE / 1024 / 1024} MB`);
+      this.recording = false;
+      this.limitReached = true;
+      return;
+    }
+
+    this.frames.push({ receivedAt, data });
+    this.size += data.length;
+  }
+
+  toNdjson(): string {
+    return this.frames.map((frame) => JSON.stringify(frame)).join('\n') + '\n';
+  }
+
+  // Trigger a browser download of the recorded session
+  download(filename: string = createRecordingFilename()) {
+    const blob = new Blob([this.toNdjson()], { type: 'application/x-ndjson' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    // Revoking right after click() can cancel the download before the browser has started it
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+}
+
+// Default filename: geops-session-YYYYMMDD-HHMMSS.ndjson
+function createRecordingFilename(date: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const day = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+  const time = `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  return `geops-session-${day}-${time}.ndjson`;
+}
+
+// Parse an NDJSON recording, skipping malformed lines
+export function parseRecording(text: string): RecordedFrame[] {
+  const frames: RecordedFrame[] = [];
+
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const frame = JSON.parse(line) as Partial<RecordedFrame>;
+      if (typeof frame.receivedAt === 'number' && typeof frame.data === 'string') {
+        frames.push({ receivedAt: frame.receivedAt, data: frame.data });
+      }
+    } catch {
+      // Ignore malformed lines (e.g. truncated last line)
+    }
+  }
+
+  return frames.sort((a, b) => a.receivedAt - b.receivedAt);
+}
@@ -0,0 +1,146 @@
+import type { Clock } from './clock';
+import type { RecordedFrame } from './session-recorder';
+import type { TrackerTransport, TransportCloseEvent, TransportFactory } from './transport';
+
+export type ReplaySpeed = 1 | 10 | 60;
+
+export const REPLAY_SPEEDS: readonly ReplaySpeed[] = [1, 10, 60];
+
+// Replays a recorded session and acts as the simulated clock for GeopsApiService,
+// so interpolated positions match where vehicles were at record time.
+// Simulated time = first frame time + elapsed real time * speed.
+export class SessionReplay implements Clock {
+  private frames: RecordedFrame[];
+  private speed: ReplaySpeed;
+  private simulatedAnchor: number; // simulated time at realAnchor
+  private realAnchor: number | null = null; // null until the replay starts
+  private transport: ReplayTransport | null = null;
+
+  constructor(frames: RecordedFrame[], speed: ReplaySpeed = 1) {
+    this.frames = frames;
+    this.speed = speed;
+    this.simulatedAnchor = this.getStartTime();
+  }
+
+  now(): number {
+    if (this.realAnchor === null) return this.simulatedAnchor;
+    return this.simulatedAnchor + (Date.now() - this.realAnchor) * this.speed;
+  }
+
+  getSpeed(): ReplaySpeed {
+    return this.speed;
+  }
+
+  // Change speed without jumping in simulated time
+  setSpeed(speed: ReplaySpeed) {
+    this.simulatedAnchor = this.now();
+    if (this.realAnchor !== null) {
+      this.realAnchor = Date.now();
+    }
+    this.speed = speed;
+    if (this.transport) {
+      this.transport.reschedule();
+    }
+  }
+
+  getStartTime(): number {
+    return this.frames.length > 0 ? this.frames[0].receivedAt : Date.now();
+  }
+
+  getEndTime(): number {
+    return this.frames.length > 0 ? this.frames[this.frames.length - 1].receivedAt : this.getStartTime();
+  }
+
+  getFrameCount(): number {
+    return this.frames.length;
+  }
+
+  isFinished(): boolean {
+    return this.transport !== null && this.transport.isFinished();
+  }
+
+  // Restart the simulated clock at the first recorded frame
+  restart() {
+    this.simulatedAnchor = this.getStartTime();
+    this.realAnchor = Date.now();
+  }
+
+  // Factory for GeopsApiService; every (re)connect replays from the beginning
+  createTransportFactory(): TransportFactory {
+    return () => {
+      this.transport = new ReplayTransport(this.frames, this);
+      return this.transport;
+    };
+  }
+}
+
+// Feeds recorded frames to GeopsApiService at the pace of the replay clock
+class ReplayTransport implements TrackerTransport {
+  onopen: (() => void) | null = null;
+  onmessage: ((_data: string) => void) | null = null;
+  onerror: ((_error: unknown) => void) | null = null;
+  onclose: ((_event: TransportCloseEvent) => void) | null = null;
+
+  private frames: RecordedFrame[];
+  private replay: SessionReplay;
+  private nextIndex = 0;
+  private timeout: number | null = null;
+  private closed = false;
+
+  constructor(frames: RecordedFrame[], replay: SessionReplay) {
+    this.frames = frames;
+    this.replay = replay;
+
+    window.setTimeout(() => {
+      if (this.closed) return;
+      this.replay.restart();
+      if (this.onopen) this.onopen();
+      this.reschedule();
+    }, 0);
+  }
+
+  // Commands (BBOX, BUFFER, PING) are ignored: the recording already holds the subscription's data
+  send(_data: string) {}
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.clearTimer();
+    window.setTimeout(() => {
+      if (this.onclose) this.onclose({ code: 1000, reason: 'Replay closed' });
+    }, 0);
+  }
+
+  isFinished(): boolean {
+    return this.nextIndex >= this.frames.length;
+  }
+
+  // (Re)schedule delivery of the next frame, e.g. after a speed change
+  reschedule() {
+    this.clearTimer();
+    if (this.closed || this.isFinished()) return;
+
+    const delay = (this.frames[this.nextIndex].receivedAt - this.replay.now()) / this.replay.getSpeed();
+    this.timeout = window.setTimeout(() => this.deliverDueFrames(), Math.max(0, delay));
+  }
+
+  // Deliver every frame whose receive time has been reached
+  private deliverDueFrames() {
+    this.timeout = null;
+    const now = this.replay.now();
+
+    while (!this.closed && !this.isFinished() && this.frames[this.nextIndex].receivedAt <= now) {
+      const frame = this.frames[this.nextIndex++];
+      if (this.onmessage) this.onmessage(frame.data);
+    }
+
+    this.reschedule();
+  }
+
+  private clearTimer() {
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+      this.timeout = null;
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import { GEOPS_CONFIG, parseBBoxCommand } from '../types/geops';
+
+import type { TrackerTransport, TransportCloseEvent } from './transport';
+import type { BBox, BBoxCommand, TransportKind } from '../types/geops';
+
+// Client for the tracker REST API (GEOPS_CONFIG.REST_BASE_URL)
+// Used for the trajectory snapshot that fills the map while the WebSocket connects, and as
+// polling transport where WebSockets are blocked (e.g. by a corporate proxy).
+
+// REST configuration
+const REST_CONFIG = {
+  // How often the polling transport fetches a fresh snapshot of its bbox
+  POLL_INTERVAL: 10000,
+};
+
+// Pseudo-channel for snapshot frames (never sent by the tracker itself)
+export const SNAPSHOT_SOURCE = 'rest_snapshot';
+
+// Wrap a REST response into a frame for the trajectory store
+// The body is embedded unparsed, so it is parsed in the worker together with the envelope
+export function createSnapshotFrame(body: string, bbox: BBox, replace: boolean): string {
+  const content = `{"bbox":${JSON.stringify(bbox)},"replace":${replace},"data":${body}}`;
+  return `{"source":"${SNAPSHOT_SOURCE}","timestamp":${Date.now()},"client_reference":null,"content":${content}}`;
+}
+
+// Failed REST request with its HTTP status
+export class TrackerRestError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'TrackerRestError';
+    this.status = status;
+  }
+}
+
+// Rejected or missing API key: retrying will not help
+export function isRestAuthFailure(error: unknown): error is TrackerRestError {
+  return error instanceof TrackerRestError && (error.status === 401 || error.status === 403);
+}
+
+export class TrackerRestClient {
+  private baseUrl: string;
+  private apiKey: string;
+  private tenant: string;
+
+  constructor(baseUrl: string, apiKey: string, tenant: string) {
+    this.baseUrl = baseUrl;
+    this.apiKey = apiKey;
+    this.tenant = tenant;
+  }
+
+  // Trajectories in the bbox as raw response body (GeoJSON FeatureCollection)
+  // Same bbox, generalization level and mots as the BBOX command of the WebSocket
+  async fetchTrajectories(bbox: BBox, zoomLevel: number, mots: string[], signal?: AbortSignal): Promise<string> {
+    if (!this.apiKey) {
+      throw new TrackerRestError('Missing API key (VITE_GEOPS_API_KEY)', 401);
+    }
+
+    const params = new URLSearchParams({
+      key: this.apiKey,
+      bbox: [bbox.left, bbox.bottom, bbox.right, bbox.top].join(','),
+      zoom: String(zoomLevel),
+    });
+    if (mots.length > 0) {
+      params.set('mots', mots.join(','));
+    }
+
+    const response = await fetch(`${this.baseUrl}/trajectories/${this.tenant}/?${params.toString()}`, { signal });
+    if (!response.ok) {
+      throw new TrackerRestError(
+        `Trajectory request failed: ${response.status} ${response.statusText}`,
+        response.status,
+      );
+    }
+    return response.text();
+  }
+}
+
+// REST client for the configured tenant
+export function createRestClient(): TrackerRestClient {
+  return new TrackerRestClient(GEOPS_CONFIG.REST_BASE_URL, GEOPS_CONFIG.API_KEY, GEOPS_CONFIG.TENANT.tenant);
+}
+
+// Client for the startup snapshot, or null where it does not help:
+// the mock has no REST API and the polling transport starts with a snapshot anyway
+export function createSnapshotClient(kind: TransportKind = GEOPS_CONFIG.TRANSPORT): TrackerRestClient | null {
+  return kind === 'websocket' ? createRestClient() : null;
+}
+
+// Tracker transport on top of the REST API
+// Every BBOX command (re)starts polling that bbox; each poll arrives as a snapshot frame that
+// replaces the vehicles of the bbox, since there are no deleted_vehicles messages.
+// BUFFER is implied by the snapshots; channels (stop sequences, timetables, newsticker) need the WebSocket.
+export class RestPollingTransport implements TrackerTransport {
+  onopen: (() => void) | null = null;
+  onmessage: ((_data: string) => void) | null = null;
+  onerror: ((_error: unknown) => void) | null = null;
+  onclose: ((_event: TransportCloseEvent) => void) | null = null;
+
+  private client: TrackerRestClient;
+  private subscription: BBoxCommand | null = null;
+  private pollInterval: number | null = null;
+  private request: AbortController | null = null;
+  private closed = false;
+
+  constructor(client: TrackerRestClient) {
+    this.client = client;
+    window.setTimeout(() => {
+      if (!this.closed && this.onopen) this.onopen();
+    }, 0);
+  }
+
+  send(data: string) {
+    if (this.closed) return;
+
+    const parts = data.trim().split(/\s+/);
+    const command = parts[0]?.toUpperCase();
+
+    if (command === 'PING') {
+      window.setTimeout(() => {
+        if (!this.closed && this.onmessage) this.onmessage('PONG');
+      }, 0);
+    } else if (command === 'BBOX') {
+      const parsed = parseBBoxCommand(parts);
+      if (parsed) {
+        this.subscription = parsed;
+        this.startPolling();
+      }
+    }
+  }
+
+  private startPolling() {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+    }
+    this.poll();
+    this.pollInterval = window.setInterval(() => this.poll(), REST_CONFIG.POLL_INTERVAL);
+  }
+
+  private poll() {
+    if (!this.subscription) return;
+    const { bbox, zoomLevel, mots } = this.subscription;
+
+    // A newer bbox supersedes a request still in flight
+    this.request?.abort();
+    const request = new AbortController();
+    this.request = request;
+
+    this.client
+      .fetchTrajectories(bbox, zoomLevel, mots, request.signal)
+      .then((body) => {
+        if (!request.signal.aborted && this.onmessage) this.onmessage(createSnapshotFrame(body, bbox, true));
+      })
+      .catch((error: unknown) => {
+        if (request.signal.aborted) return;
+
+        // Rejected keys will be rejected again: close like the WebSocket does (see isAuthFailure)
+        if (isRestAuthFailure(error)) {
+          this.shutdown({ code: 4000 + error.status, reason: error.message });
+          return;
+        }
+
+        // Anything else (network, 5xx) is retried with the next poll
+        if (this.onerror) this.onerror(error);
+      });
+  }
+
+  close() {
+    this.shutdown({ code: 1000, reason: 'REST polling stopped' });
+  }
+
+  private shutdown(event: TransportCloseEvent) {
+    if (this.closed) return;
+    this.closed = true;
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+    this.request?.abort();
+    this.request = null;
+    window.setTimeout(() => {
+      if (this.onclose) this.onclose(event);
+    }, 0);
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  computeCumulativeLengths,
+  findSegment,
+  getPointAtFraction,
+  interpolateAngle,
+  interpolatePosition,
+} from './trajectory-geometry';
+
+import type { TrajectoryGeometry } from './trajectory-geometry';
+import type { TimeInterval } from '../types/geops';
+
+function createGeometry(coords: [number, number][]): TrajectoryGeometry {
+  return { coords, cumulativeLengths: computeCumulativeLengths(coords) };
+}
+
+describe('straight line', () => {
+  const geometry = createGeometry([
+    [0, 0],
+    [10, 0],
+  ]);
+
+  it('places fractions proportionally along the line', () => {
+    expect(getPointAtFraction(geometry, 0)).toEqual({ x: 0, y: 0 });
+    expect(getPointAtFraction(geometry, 0.25)).toEqual({ x: 2.5, y: 0 });
+    expect(getPointAtFraction(geometry, 1)).toEqual({ x: 10, y: 0 });
+  });
+
+  it('clamps fractions outside 0-1 to the ends', () => {
+    expect(getPointAtFraction(geometry, -0.5)).toEqual({ x: 0, y: 0 });
+    expect(getPointAtFraction(geometry, 1.5)).toEqual({ x: 10, y: 0 });
+  });
+
+  it('interpolates between time intervals', () => {
+    const intervals: TimeInterval[] = [
+      [1000, 0, 0],
+      [2000, 1, 0],
+    ];
+    expect(interpolatePosition(geometry, intervals, 1500, 30000)).toEqual({ x: 5, y: 0, rotation: 0, stale: false });
+  });
+});
+
+describe('curved line with uneven segments', () => {
+  // A short first leg (length 1) and a long second leg (length 9)
+  const geometry = createGeometry([
+    [0, 0],
+    [1, 0],
+    [1, 9],
+  ]);
+
+  it('accumulates segment lengths', () => {
+    expect(geometry.cumulativeLengths).toEqual([0, 1, 10]);
+  });
+
+  it('finds the segment containing a distance', () => {
+    expect(findSegment(geometry.cumulativeLengths, 0)).toBe(0);
+    expect(findSegment(geometry.cumulativeLengths, 0.5)).toBe(0);
+    expect(findSegment(geometry.cumulativeLengths, 1)).toBe(1);
+    expect(findSegment(geometry.cumulativeLengths, 10)).toBe(1);
+  });
+
+  it('interpolates by arc length, not by vertex count', () => {
+    // Halfway by vertex count would be the corner at (1, 0)
+    expect(getPointAtFraction(geometry, 0.5)).toEqual({ x: 1, y: 4 });
+    expect(getPointAtFraction(geometry, 0.05)).toEqual({ x: 0.5, y: 0 });
+  });
+
+  it('dead-reckons past the last interval and flags the position as stale afterwards', () => {
+    const intervals: TimeInterval[] = [
+      [0, 0, 0],
+      [1000, 0.1, 0],
+    ];
+    // 0.1 per second for another second, then frozen
+    expect(interpolatePosition(geometry, intervals, 2000, 5000)).toEqual({ x: 1, y: 1, rotation: 0, stale: false });
+    expect(interpolatePosition(geometry, intervals, 3000, 1000)).toEqual({ x: 1, y: 1, rotation: 0, stale: true });
+  });
+});
+
+describe('single vertex', () => {
+  const geometry = createGeometry([[5, 7]]);
+
+  it('stays on the vertex for any fraction', () => {
+    expect(geometry.cumulativeLengths).toEqual([0]);
+    expect(getPointAtFraction(geometry, 0)).toEqual({ x: 5, y: 7 });
+    expect(getPointAtFraction(geometry, 0.7)).toEqual({ x: 5, y: 7 });
+  });
+
+  it('interpolates the rotation but not the position', () => {
+    const intervals: TimeInterval[] = [
+      [0, 0, 0],
+      [1000, 1, 1],
+    ];
+    expect(interpolatePosition(geometry, intervals, 500, 30000)).toEqual({ x: 5, y: 7, rotation: 0.5, stale: false });
+  });
+});
+
+describe('rotation', () => {
+  it('turns across the ±π wrap along the shorter direction', () => {
+    const from = 0.9 * Math.PI;
+    const to = -0.9 * Math.PI;
+    // 0.2π counter-clockwise through π, not 1.8π clockwise through 0
+    expect(interpolateAngle(from, to, 0.5)).toBeCloseTo(Math.PI);
+    expect(interpolateAngle(from, to, 0.25)).toBeCloseTo(0.95 * Math.PI);
+    expect(interpolateAngle(to, from, 0.5)).toBeCloseTo(-Math.PI);
+  });
+
+  it('interpolates small turns directly', () => {
+    expect(interpolateAngle(0, 1, 0.5)).toBeCloseTo(0.5);
+    expect(interpolateAngle(1, 0, 0.25)).toBeCloseTo(0.75);
+  });
+});
@@ -0,0 +1,150 @@
+import type { TimeInterval } from '../types/geops';
+
+// Position interpolation along a trajectory: the fractions in time_intervals refer to the line
+// length, so positions are found by arc length. Pure functions, used by the trajectory store.
+
+// Line geometry with the distance from the first vertex to each vertex (see computeCumulativeLengths)
+export interface TrajectoryGeometry {
+  coords: [number, number][];
+  cumulativeLengths: number[];
+}
+
+export interface InterpolatedPosition {
+  x: number;
+  y: number;
+  rotation: number;
+  stale: boolean;
+}
+
+// Distance along the line from the first vertex to every vertex (first entry is 0)
+export function computeCumulativeLengths(coords: [number, number][]): number[] {
+  const lengths = [0];
+  for (let i = 1; i < coords.length; i++) {
+    const dx = coords[i][0] - coords[i - 1][0];
+    const dy = coords[i][1] - coords[i - 1][1];
+    lengths.push(lengths[i - 1] + Math.hypot(dx, dy));
+  }
+  return lengths;
+}
+
+// Index of the segment [i, i + 1] containing the given distance (binary search)
+export function findSegment(cumulativeLengths: number[], distance: number): number {
+  let low = 0;
+  let high = cumulativeLengths.length - 2;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (cumulativeLengths[mid] <= distance) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+// Interpolate between two angles (radians) along the shorter direction, so a turn
+// across the ±π wrap does not spin the vehicle the long way round
+export function interpolateAngle(from: number, to: number, progress: number): number {
+  let delta = (to - from) % (2 * Math.PI);
+  if (delta > Math.PI) delta -= 2 * Math.PI;
+  if (delta < -Math.PI) delta += 2 * Math.PI;
+  return from + delta * progress;
+}
+
+// Point at a fraction (0-1, clamped) of the line length
+export function getPointAtFraction(geometry: TrajectoryGeometry, fraction: number): { x: number; y: number } {
+  const { coords, cumulativeLengths } = geometry;
+  const totalLength = cumulativeLengths[cumulativeLengths.length - 1];
+
+  // Single vertex or zero-length line: nothing to interpolate
+  if (coords.length === 1 || totalLength === 0) {
+    return { x: coords[0][0], y: coords[0][1] };
+  }
+
+  const distance = Math.min(Math.max(fraction, 0), 1) * totalLength;
+  const idx = findSegment(cumulativeLengths, distance);
+  const segmentLength = cumulativeLengths[idx + 1] - cumulativeLengths[idx];
+  const subFraction = segmentLength > 0 ? (distance - cumulativeLengths[idx]) / segmentLength : 0;
+
+  // Linear interpolation between two coordinates
+  return {
+    x: coords[idx][0] + (coords[idx + 1][0] - coords[idx][0]) * subFraction,
+    y: coords[idx][1] + (coords[idx + 1][1] - coords[idx][1]) * subFraction,
+  };
+}
+
+// Find the surrounding time intervals for a given timestamp
+function findTimeIntervals(
+  timeIntervals: TimeInterval[],
+  now: number,
+): { prev: TimeInterval | null; next: TimeInterval | null } {
+  let prev: TimeInterval | null = null;
+  let next: TimeInterval | null = null;
+
+  for (const interval of timeIntervals) {
+    if (interval[0] <= now) {
+      prev = interval;
+    } else if (!next) {
+      next = interval;
+      break;
+    }
+  }
+
+  return { prev, next };
+}
+
+// Dead-reckon past the last interval: keep the speed of the last interval pair for
+// deadReckoningMs (never beyond the end of the line), then freeze and flag as stale
+function extrapolatePosition(
+  geometry: TrajectoryGeometry,
+  timeIntervals: TimeInterval[],
+  now: number,
+  deadReckoningMs: number,
+): InterpolatedPosition {
+  const last = timeIntervals[timeIntervals.length - 1];
+  const elapsed = now - last[0];
+
+  let speed = 0; // fraction per ms
+  if (timeIntervals.length > 1) {
+    const before = timeIntervals[timeIntervals.length - 2];
+    const timeDiff = last[0] - before[0];
+    speed = timeDiff > 0 ? (last[1] - before[1]) / timeDiff : 0;
+  }
+
+  const fraction = last[1] + speed * Math.min(elapsed, deadReckoningMs);
+  return { ...getPointAtFraction(geometry, fraction), rotation: last[2], stale: elapsed > deadReckoningMs };
+}
+
+// Position at time now: interpolated between the surrounding time intervals, at the first
+// position before them, and dead-reckoned for deadReckoningMs after them
+export function interpolatePosition(
+  geometry: TrajectoryGeometry,
+  timeIntervals: TimeInterval[],
+  now: number,
+  deadReckoningMs: number,
+): InterpolatedPosition | null {
+  if (timeIntervals.length === 0 || geometry.coords.length === 0) return null;
+
+  const { prev, next } = findTimeIntervals(timeIntervals, now);
+
+  // Past all intervals - dead-reckon, then mark as stale
+  if (!next && prev) {
+    return extrapolatePosition(geometry, timeIntervals, now, deadReckoningMs);
+  }
+
+  // Before all intervals - use first position
+  if (!prev && next) {
+    return { ...getPointAtFraction(geometry, next[1]), rotation: next[2], stale: false };
+  }
+
+  // Interpolate between intervals
+  if (prev && next) {
+    const timeDiff = next[0] - prev[0];
+    const timeProgress = timeDiff > 0 ? (now - prev[0]) / timeDiff : 0;
+    const fraction = prev[1] + (next[1] - prev[1]) * timeProgress;
+    const rotation = interpolateAngle(prev[2], next[2], timeProgress);
+    return { ...getPointAtFraction(geometry, fraction), rotation, stale: false };
+  }
+
+  return null;
+}
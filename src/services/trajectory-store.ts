@@ -0,0 +1,557 @@
+import { GEOPS_CONFIG, isLongDistanceTrain } from '../types/geops';
+
+import { TypedEventEmitter } from './event-emitter';
+import {
+  createMessageStats,
+  MAX_RECENT_REJECTIONS,
+  validateBuffer,
+  validateDeletedVehicle,
+  validateEnvelope,
+  validateNewstickerMessages,
+  validateSnapshot,
+  validateStopSequences,
+  validateTimetableDepartures,
+  validateTrajectoryFeature,
+} from './message-validation';
+import { SNAPSHOT_SOURCE } from './tracker-rest';
+import { computeCumulativeLengths, interpolatePosition } from './trajectory-geometry';
+import { createFilterPredicate } from './vehicle-filter';
+
+import type { Disposer, EventHandler } from './event-emitter';
+import type { MessageCategory, MessageStats } from './message-validation';
+import type { InterpolatedPosition } from './trajectory-geometry';
+import type { VehicleFilter } from './vehicle-filter';
+import type {
+  BBox,
+  DeleteReason,
+  Departure,
+  Disruption,
+  Journey,
+  NewstickerMessage,
+  StopSequence,
+  TimeInterval,
+  TimetableDeparture,
+  TrajectoryFeature,
+  TrajectorySnapshot,
+  VehicleAttributes,
+  VehicleState,
+  WebSocketMessage,
+} from '../types/geops';
+
+// Trajectory store: parses tracker frames (socket messages and REST snapshots), keeps one
+// trajectory per vehicle and interpolates their positions; channel messages become journeys,
+// departures and disruptions. Runs in the tracker worker, so it must not touch the DOM.
+
+// Store trajectory data for animation
+interface VehicleTrajectory {
+  id: string;
+  slot: number; // compact numeric id used in position batches
+  coords: [number, number][];
+  cumulativeLengths: number[]; // distance from the first vertex to each vertex
+  timeIntervals: TimeInterval[];
+  attributes: VehicleAttributes;
+  generation: number; // subscription generation that last refreshed this trajectory
+}
+
+// Interpolated positions of all vehicles at one instant
+// Vehicle i has slot slots[i] and position positions[4i..4i+3] = x, y, rotation, stale (0 or 1)
+export interface PositionBatch {
+  slots: Int32Array;
+  positions: Float64Array;
+}
+
+export const POSITION_STRIDE = 4;
+
+// What happens once the clock passes a vehicle's last time interval
+export interface StalenessPolicy {
+  deadReckoningMs: number; // keep moving along the geometry with the last known speed for this long
+  removeAfterMs: number; // then show the vehicle as stale until this long after the last interval, then delete it
+}
+
+// Staleness policies per vehicle type (trains report less often than urban vehicles)
+const STALENESS_CONFIG: { DEFAULT: StalenessPolicy; BY_TYPE: Record<string, StalenessPolicy> } = {
+  DEFAULT: { deadReckoningMs: 30000, removeAfterMs: 120000 },
+  BY_TYPE: {
+    rail: { deadReckoningMs: 60000, removeAfterMs: 180000 },
+    tram: { deadReckoningMs: 20000, removeAfterMs: 90000 },
+    bus: { deadReckoningMs: 20000, removeAfterMs: 90000 },
+  },
+};
+
+// Events emitted by the store (listener argument tuples)
+export type TrajectoryStoreEvents = {
+  trajectory: [slot: number, vehicleId: string, coords: [number, number][], attributes: VehicleAttributes];
+  delete: [slot: number, vehicleId: string, reason: DeleteReason]; // slot is -1 for vehicles the store never knew
+  journey: [journey: Journey];
+  departures: [stationId: string, departures: Departure[]];
+  disruptions: [disruptions: Disruption[]];
+};
+
+const STOP_SEQUENCE_PREFIX = 'stopsequence_';
+const TIMETABLE_PREFIX = 'timetable_';
+const NEWSTICKER_SOURCE = 'newsticker';
+
+export class TrajectoryStore {
+  private trajectories: Map<string, VehicleTrajectory> = new Map();
+  private events = new TypedEventEmitter<TrajectoryStoreEvents>();
+  private messageStats: MessageStats = createMessageStats();
+  private freeSlots: number[] = [];
+  private nextSlot = 0;
+  private currentMots: string[] = [];
+  private longDistanceOnly = false;
+  private matchesFilter = createFilterPredicate({});
+  private longDistancePrefixes: readonly string[] = GEOPS_CONFIG.TENANT.longDistancePrefixes;
+  private generation = 0;
+  private stalenessPolicies: Record<string, StalenessPolicy> = { ...STALENESS_CONFIG.BY_TYPE };
+
+  on<K extends keyof TrajectoryStoreEvents>(event: K, handler: EventHandler<TrajectoryStoreEvents[K]>): Disposer {
+    return this.events.on(event, handler);
+  }
+
+  get size(): number {
+    return this.trajectories.size;
+  }
+
+  getMessageStats(): MessageStats {
+    return this.messageStats;
+  }
+
+  private allocateSlot(): number {
+    return this.freeSlots.pop() ?? this.nextSlot++;
+  }
+
+  private deleteTrajectory(id: string, reason: DeleteReason) {
+    const trajectory = this.trajectories.get(id);
+    if (trajectory) {
+      this.trajectories.delete(id);
+      this.freeSlots.push(trajectory.slot);
+    }
+    this.events.emit('delete', trajectory ? trajectory.slot : -1, id, reason);
+  }
+
+  // Remove every trajectory (e.g. when switching transport)
+  clear() {
+    for (const id of [...this.trajectories.keys()]) {
+      this.deleteTrajectory(id, 'cleared');
+    }
+  }
+
+  // Start a new subscription generation (after a reconnect)
+  startGeneration(generation: number) {
+    this.generation = generation;
+  }
+
+  // Drop trajectories that were not refreshed since the given generation started
+  dropStaleGenerations(generation: number) {
+    for (const [id, trajectory] of this.trajectories) {
+      if (trajectory.generation < generation) {
+        this.deleteTrajectory(id, 'missing');
+      }
+    }
+  }
+
+  // Remove vehicles whose last position is outside every subscribed box (view and pinned regions);
+  // the server sends no deletion messages for vehicles that leave its subscriptions
+  evictOutside(bboxes: BBox[]) {
+    for (const [id, trajectory] of this.trajectories) {
+      // Check if the last known position is outside every bbox
+      if (trajectory.coords.length > 0 && !bboxes.some((bbox) => isLastPositionInside(trajectory, bbox))) {
+        this.deleteTrajectory(id, 'evicted');
+      }
+    }
+  }
+
+  setTransportFilter(mots: string[]) {
+    const previousMots = this.currentMots;
+    this.currentMots = mots;
+
+    // Remove trajectories that no longer match the filter
+    if (previousMots.length !== mots.length || !previousMots.every((m) => mots.includes(m))) {
+      for (const [id, trajectory] of this.trajectories) {
+        if (!trajectory.attributes.type || !mots.includes(trajectory.attributes.type)) {
+          this.deleteTrajectory(id, 'filtered');
+        }
+      }
+    }
+  }
+
+  setLongDistanceOnly(enabled: boolean) {
+    if (this.longDistanceOnly !== enabled) {
+      this.longDistanceOnly = enabled;
+      // Remove non-long-distance trains if filter is enabled
+      if (enabled) {
+        for (const [id, trajectory] of this.trajectories) {
+          const { type, lineName } = trajectory.attributes;
+          if (type === 'rail' && !isLongDistanceTrain(lineName, this.longDistancePrefixes)) {
+            this.deleteTrajectory(id, 'filtered');
+          }
+        }
+      }
+    }
+  }
+
+  // Line classification of the tenant; the worker cannot read ?tenant= itself
+  setLongDistancePrefixes(prefixes: string[]) {
+    this.longDistancePrefixes = prefixes;
+  }
+
+  // User filter (filter panel / ?filter=), applied on top of the zoom-driven filters
+  setFilter(filter: VehicleFilter) {
+    this.matchesFilter = createFilterPredicate(filter);
+
+    // Remove trajectories that no longer match
+    for (const [id, trajectory] of this.trajectories) {
+      if (!this.matchesFilter(trajectory.attributes)) {
+        this.deleteTrajectory(id, 'filtered');
+      }
+    }
+  }
+
+  // Override the staleness policy for one vehicle type
+  setStalenessPolicy(type: string, policy: StalenessPolicy) {
+    this.stalenessPolicies[type] = policy;
+  }
+
+  private getStalenessPolicy(type?: string): StalenessPolicy {
+    return (type && this.stalenessPolicies[type]) || STALENESS_CONFIG.DEFAULT;
+  }
+
+  // Handle one raw frame from the tracker
+  handleFrame(data: string) {
+    this.messageStats.frames++;
+
+    // Keep-alive reply to our PING
+    if (data === 'PONG') {
+      this.messageStats.pong++;
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      this.messageStats.nonJson++;
+      return;
+    }
+
+    const envelope = validateEnvelope(parsed);
+    if (!envelope.ok) {
+      this.rejectMessage('envelope', envelope.reason);
+      return;
+    }
+
+    this.processMessage(envelope.value);
+  }
+
+  private processMessage(message: WebSocketMessage, fromBuffer: boolean = false) {
+    const { source, content } = message;
+
+    if (source === 'buffer' && !fromBuffer) {
+      // Buffered messages - each item is a full message envelope
+      const buffer = validateBuffer(content);
+      if (!buffer.ok) {
+        this.rejectMessage('buffer', buffer.reason);
+        return;
+      }
+      this.messageStats.accepted.buffer++;
+
+      for (const item of buffer.value) {
+        const envelope = validateEnvelope(item);
+        if (envelope.ok) {
+          this.processMessage(envelope.value, true);
+        } else {
+          this.rejectMessage('envelope', `buffer item: ${envelope.reason}`);
+        }
+      }
+    } else if (source === 'trajectory') {
+      const feature = validateTrajectoryFeature(content);
+      if (!feature.ok) {
+        this.rejectMessage('trajectory', feature.reason);
+        return;
+      }
+      this.acceptMessage('trajectory', feature.warnings);
+      this.processTrajectory(feature.value);
+    } else if (source === 'deleted_vehicles') {
+      // Vehicle deletion - content is the train_id string
+      const trainId = validateDeletedVehicle(content);
+      if (!trainId.ok) {
+        this.rejectMessage('deleted_vehicles', trainId.reason);
+        return;
+      }
+      this.messageStats.accepted.deleted_vehicles++;
+      this.deleteTrajectory(trainId.value, 'deleted');
+    } else if (source === SNAPSHOT_SOURCE) {
+      // Trajectories fetched over REST (startup snapshot or polling transport)
+      const snapshot = validateSnapshot(content);
+      if (!snapshot.ok) {
+        this.rejectMessage('snapshot', snapshot.reason);
+        return;
+      }
+      this.messageStats.accepted.snapshot++;
+      this.processSnapshot(snapshot.value);
+    } else if (source.startsWith(STOP_SEQUENCE_PREFIX)) {
+      // Stop sequence of a subscribed vehicle - the channel name carries the train_id
+      const sequences = validateStopSequences(content);
+      if (!sequences.ok) {
+        this.rejectMessage('stopsequence', sequences.reason);
+        return;
+      }
+      this.messageStats.accepted.stopsequence++;
+      const trainId = source.slice(STOP_SEQUENCE_PREFIX.length);
+      for (const sequence of sequences.value) {
+        this.events.emit('journey', createJourney(trainId, sequence, this.trajectories.get(trainId)?.attributes));
+      }
+    } else if (source.startsWith(TIMETABLE_PREFIX)) {
+      // Departures of a subscribed station - the channel name carries the UIC number
+      const departures = validateTimetableDepartures(content);
+      if (!departures.ok) {
+        this.rejectMessage('timetable', departures.reason);
+        return;
+      }
+      this.messageStats.accepted.timetable++;
+      this.events.emit('departures', source.slice(TIMETABLE_PREFIX.length), departures.value.map(createDeparture));
+    } else if (source === NEWSTICKER_SOURCE) {
+      const messages = validateNewstickerMessages(content);
+      if (!messages.ok) {
+        this.rejectMessage('newsticker', messages.reason);
+        return;
+      }
+      this.messageStats.accepted.newsticker++;
+      this.events.emit('disruptions', messages.value.map(createDisruption));
+    } else {
+      this.messageStats.ignored++;
+    }
+  }
+
+  private acceptMessage(category: MessageCategory, warnings: string[] = []) {
+    const stats = this.messageStats;
+    stats.accepted[category]++;
+    for (const reason of warnings) {
+      stats.warnings[category]++;
+      stats.recentWarnings.push({ category, reason, timestamp: Date.now() });
+      if (stats.recentWarnings.length > MAX_RECENT_REJECTIONS) {
+        stats.recentWarnings.shift();
+      }
+    }
+  }
+
+  private rejectMessage(category: MessageCategory, reason: string) {
+    const stats = this.messageStats;
+    stats.rejected[category]++;
+    stats.recentRejections.push({ category, reason, timestamp: Date.now() });
+    if (stats.recentRejections.length > MAX_RECENT_REJECTIONS) {
+      stats.recentRejections.shift();
+    }
+  }
+
+  // Snapshot features go through processTrajectory like socket messages, so a vehicle that is in
+  // both ends up as one trajectory. A snapshot never overwrites a trajectory that is at least as recent.
+  private processSnapshot(snapshot: TrajectorySnapshot) {
+    const seen = new Set<string>();
+
+    for (const item of snapshot.features) {
+      const feature = validateTrajectoryFeature(item);
+      if (!feature.ok) {
+        this.rejectMessage('trajectory', `snapshot item: ${feature.reason}`);
+        continue;
+      }
+      this.acceptMessage('trajectory', feature.warnings);
+
+      const { train_id, time_intervals } = feature.value.properties;
+      seen.add(train_id);
+      const existing = this.trajectories.get(train_id);
+      if (existing && getLastIntervalTime(existing.timeIntervals) >= getLastIntervalTime(time_intervals)) {
+        continue;
+      }
+      this.processTrajectory(feature.value);
+    }
+
+    // Polling gets no deleted_vehicles: whatever is missing from a complete snapshot of its bbox is gone
+    if (snapshot.replace) {
+      for (const [id, trajectory] of this.trajectories) {
+        if (!seen.has(id) && isLastPositionInside(trajectory, snapshot.bbox)) {
+          this.deleteTrajectory(id, 'missing');
+        }
+      }
+    }
+  }
+
+  // Feature has passed validateTrajectoryFeature()
+  private processTrajectory(feature: TrajectoryFeature) {
+    const { train_id, time_intervals, line, destination, delay, type, state } = feature.properties;
+    const coords = feature.geometry.coordinates;
+
+    // Pinned regions and in-flight frames can still deliver modes the zoom level no longer subscribes
+    if (this.currentMots.length > 0 && (!type || !this.currentMots.includes(type))) {
+      if (this.trajectories.has(train_id)) {
+        this.deleteTrajectory(train_id, 'filtered');
+      }
+      return;
+    }
+
+    // Filter out non-long-distance trains when filter is enabled
+    if (this.longDistanceOnly && type === 'rail' && !isLongDistanceTrain(line?.name, this.longDistancePrefixes)) {
+      return;
+    }
+
+    const existing = this.trajectories.get(train_id);
+    const attributes: VehicleAttributes = {
+      lineName: line?.name,
+      lineColor: line?.color,
+      destination,
+      delay,
+      type,
+      state: state as VehicleState,
+    };
+
+    // A vehicle can stop matching the user filter with an update (e.g. its delay dropped)
+    if (!this.matchesFilter(attributes)) {
+      if (existing) {
+        this.deleteTrajectory(train_id, 'filtered');
+      }
+      return;
+    }
+
+    // Store trajectory data for continuous animation
+    const trajectory: VehicleTrajectory = {
+      id: train_id,
+      slot: existing ? existing.slot : this.allocateSlot(),
+      coords,
+      cumulativeLengths: computeCumulativeLengths(coords),
+      timeIntervals: time_intervals,
+      attributes,
+      generation: this.generation,
+    };
+
+    this.trajectories.set(train_id, trajectory);
+
+    // Notify trajectory listeners
+    this.events.emit('trajectory', trajectory.slot, train_id, coords, trajectory.attributes);
+  }
+
+  // Interpolate all vehicles at the given time into a compact batch
+  // dataTime is the time the received data refers to (wall-clock for live data). Vehicles past their
+  // staleness policy's removal time at dataTime are deleted here; with the clock moved ahead of it,
+  // vehicles expired only at now are left out of the batch but kept for when the clock goes back.
+  buildPositions(now: number, dataTime: number = now): PositionBatch {
+    const slots = new Int32Array(this.trajectories.size);
+    const positions = new Float64Array(this.trajectories.size * POSITION_STRIDE);
+    let count = 0;
+
+    for (const [id, trajectory] of this.trajectories) {
+      if (this.isExpired(trajectory, dataTime)) {
+        this.deleteTrajectory(id, 'expired');
+        continue;
+      }
+      if (this.isExpired(trajectory, now)) continue;
+
+      const position = this.interpolatePosition(trajectory, now);
+
+      if (position) {
+        slots[count] = trajectory.slot;
+        positions[count * POSITION_STRIDE] = position.x;
+        positions[count * POSITION_STRIDE + 1] = position.y;
+        positions[count * POSITION_STRIDE + 2] = position.rotation;
+        positions[count * POSITION_STRIDE + 3] = position.stale ? 1 : 0;
+        count++;
+      }
+    }
+
+    return {
+      slots: slots.slice(0, count),
+      positions: positions.slice(0, count * POSITION_STRIDE),
+    };
+  }
+
+  // True once no fresh trajectory arrived within the removal time of the type's policy
+  private isExpired(trajectory: VehicleTrajectory, now: number): boolean {
+    const { timeIntervals, attributes } = trajectory;
+    if (timeIntervals.length === 0) return false;
+
+    const lastTime = timeIntervals[timeIntervals.length - 1][0];
+    return now - lastTime > this.getStalenessPolicy(attributes.type).removeAfterMs;
+  }
+
+  private interpolatePosition(trajectory: VehicleTrajectory, now: number): InterpolatedPosition | null {
+    const { deadReckoningMs } = this.getStalenessPolicy(trajectory.attributes.type);
+    return interpolatePosition(trajectory, trajectory.timeIntervals, now, deadReckoningMs);
+  }
+}
+
+// Build a journey from a validated stop sequence; line details fall back to the trajectory's
+function createJourney(trainId: string, sequence: StopSequence, attributes?: VehicleAttributes): Journey {
+  return {
+    trainId,
+    lineName: sequence.shortName ?? attributes?.lineName,
+    lineColor: sequence.color ?? attributes?.lineColor,
+    type: sequence.type ?? attributes?.type,
+    destination: sequence.destination ?? attributes?.destination,
+    stops: sequence.stations.map((station) => ({
+      stationId: station.stationId,
+      name: station.stationName,
+      coordinate: station.coordinate,
+      platform: station.platform ?? undefined,
+      scheduledArrival: station.aimedArrivalTime ?? undefined,
+      realtimeArrival: station.arrivalTime ?? undefined,
+      arrivalDelay: station.arrivalDelay ?? undefined,
+      scheduledDeparture: station.aimedDepartureTime ?? undefined,
+      realtimeDeparture: station.departureTime ?? undefined,
+      departureDelay: station.departureDelay ?? undefined,
+      cancelled: station.cancelled ?? false,
+    })),
+    receivedAt: Date.now(),
+  };
+}
+
+// Build a departure board entry from a validated timetable departure
+function createDeparture(departure: TimetableDeparture): Departure {
+  const scheduledTime = departure.ris_aimed_time ?? undefined;
+  return {
+    id: departure.call_id ?? departure.train_id,
+    trainId: departure.train_id,
+    lineName: departure.line?.name,
+    lineColor: departure.line?.color,
+    destination: departure.to?.join(' / '),
+    platform: departure.platform ?? undefined,
+    scheduledTime,
+    time: departure.time,
+    delay: scheduledTime !== undefined ? departure.time - scheduledTime : undefined,
+    cancelled: departure.state === 'JOURNEY_CANCELLED',
+  };
+}
+
+// Epoch ms from an epoch number or ISO date string
+function parseTime(value: string | number | null | undefined): number | undefined {
+  if (value === null || value === undefined) return undefined;
+  const time = typeof value === 'number' ? value : Date.parse(value);
+  return Number.isFinite(time) ? time : undefined;
+}
+
+// Build a disruption from a validated newsticker message
+// Markup is stripped here because the worker has no DOM to sanitize it
+function createDisruption(message: NewstickerMessage): Disruption {
+  const text = (message.content ?? '')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return {
+    id: String(message.id),
+    title: message.title,
+    text,
+    lines: message.lines ?? [],
+    start: parseTime(message.start),
+    end: parseTime(message.end),
+  };
+}
+
+// Timestamp of the last interval, used to tell which of two trajectories is more recent
+function getLastIntervalTime(timeIntervals: TimeInterval[]): number {
+  return timeIntervals.length > 0 ? timeIntervals[timeIntervals.length - 1][0] : -Infinity;
+}
+
+function isLastPositionInside(trajectory: VehicleTrajectory, bbox: BBox): boolean {
+  if (trajectory.coords.length === 0) return false;
+  const [x, y] = trajectory.coords[trajectory.coords.length - 1];
+  return x >= bbox.left && x <= bbox.right && y >= bbox.bottom && y <= bbox.top;
+}
@@ -0,0 +1,138 @@
+import { GEOPS_CONFIG } from '../types/geops';
+
+import { MockTrackerTransport } from './mock-tracker';
+import { createRestClient, RestPollingTransport } from './tracker-rest';
+
+import type { TransportKind } from '../types/geops';
+
+export interface TransportCloseEvent {
+  code: number;
+  reason: string;
+}
+
+// Minimal WebSocket-like connection used by GeopsApiService
+// Text frames only: commands go out via send(), raw frames come back via onmessage
+export interface TrackerTransport {
+  onopen: (() => void) | null;
+  onmessage: ((_data: string) => void) | null;
+  onerror: ((_error: unknown) => void) | null;
+  onclose: ((_event: TransportCloseEvent) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+// Creates a fresh connection (called again on every reconnect)
+export type TransportFactory = () => TrackerTransport;
+
+// Close codes and reasons that indicate a rejected or missing API key
+// Retrying will not help for these, so GeopsApiService stops reconnecting
+const AUTH_FAILURE_CODES = [1008, 4001, 4003, 4401, 4403];
+const AUTH_FAILURE_REASON = /auth|api key|unauthori[sz]ed|forbidden/i;
+
+// Consecutive WebSocket connections that closed without ever opening before falling back to
+// REST polling; typical for proxies that block the upgrade request
+const POLLING_FALLBACK_ATTEMPTS = 3;
+
+export function isAuthFailure(event: TransportCloseEvent): boolean {
+  return AUTH_FAILURE_CODES.includes(event.code) || AUTH_FAILURE_REASON.test(event.reason);
+}
+
+// Live geOps tracker WebSocket
+export class WebSocketTransport implements TrackerTransport {
+  onopen: (() => void) | null = null;
+  onmessage: ((_data: string) => void) | null = null;
+  onerror: ((_error: unknown) => void) | null = null;
+  onclose: ((_event: TransportCloseEvent) => void) | null = null;
+
+  private ws: WebSocket | null = null;
+  private opened = false;
+  private closed = false;
+
+  constructor(url: string, apiKey: string, tenant: string) {
+    // Without a key the tracker rejects us anyway; fail fast instead of retrying forever
+    if (!apiKey) {
+      window.setTimeout(() => {
+        if (this.onclose) this.onclose({ code: 4001, reason: 'Missing API key (VITE_GEOPS_API_KEY)' });
+      }, 0);
+      return;
+    }
+
+    const params = new URLSearchParams({ key: apiKey, tenant });
+    this.ws = new WebSocket(`${url}?${params.toString()}`);
+
+    this.ws.onopen = () => {
+      this.opened = true;
+      if (this.onopen) this.onopen();
+    };
+
+    this.ws.onmessage = (event: MessageEvent<string>) => {
+      if (this.onmessage) this.onmessage(event.data);
+    };
+
+    this.ws.onerror = (error) => {
+      if (this.onerror) this.onerror(error);
+    };
+
+    this.ws.onclose = (event) => {
+      this.closed = true;
+      if (this.onclose) this.onclose({ code: event.code, reason: event.reason });
+    };
+  }
+
+  hasOpened(): boolean {
+    return this.opened;
+  }
+
+  // True once the connection closed without ever opening
+  failedToOpen(): boolean {
+    return this.closed && !this.opened;
+  }
+
+  send(data: string) {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(data);
+    }
+  }
+
+  close() {
+    if (this.ws) {
+      this.ws.close();
+    }
+  }
+}
+
+// Create a transport factory for the given kind (defaults to the configured one)
+export function createTransportFactory(kind: TransportKind = GEOPS_CONFIG.TRANSPORT): TransportFactory {
+  if (kind === 'mock') {
+    return () => new MockTrackerTransport();
+  }
+
+  if (kind === 'polling') {
+    return () => new RestPollingTransport(createRestClient());
+  }
+
+  // Live WebSocket, switching to REST polling for good once it repeatedly fails to open
+  let lastSocket: WebSocketTransport | null = null;
+  let failedAttempts = 0;
+  let polling = false;
+  return () => {
+    if (!polling && lastSocket) {
+      if (lastSocket.failedToOpen()) {
+        failedAttempts++;
+      } else if (lastSocket.hasOpened()) {
+        failedAttempts = 0;
+      }
+      polling = failedAttempts >= POLLING_FALLBACK_ATTEMPTS;
+      if (polling) {
+        console.warn('WebSocket connections keep failing, falling back to REST polling');
+      }
+    }
+
+    if (polling) {
+      return new RestPollingTransport(createRestClient());
+    }
+
+    lastSocket = new WebSocketTransport(GEOPS_CONFIG.WEBSOCKET_URL, GEOPS_CONFIG.API_KEY, GEOPS_CONFIG.TENANT.tenant);
+    return lastSocket;
+  };
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+
+import { createFilterPredicate, isEmptyFilter, parseFilter, serializeFilter } from './vehicle-filter';
+
+import type { VehicleFilter } from './vehicle-filter';
+
+describe('parseFilter', () => {
+  it('parses every clause', () => {
+    expect(parseFilter('line:IC*, S12;type:Rail,tram;delay:5;state:journey_cancelled;dest:Bern')).toEqual({
+      lines: ['IC*', 'S12'],
+      types: ['rail', 'tram'],
+      minDelay: 300000,
+      states: ['JOURNEY_CANCELLED'],
+      destination: 'Bern',
+    });
+  });
+
+  it('ignores unknown keys, empty values and invalid values', () => {
+    expect(parseFilter('color:red;line:;delay:-1;delay:soon;state:FLYING;nonsense')).toEqual({ states: [] });
+    expect(isEmptyFilter(parseFilter(null))).toBe(true);
+    expect(isEmptyFilter(parseFilter(''))).toBe(true);
+  });
+
+  it('keeps a percent sign that is not an escape', () => {
+    expect(parseFilter('dest:100%')).toEqual({ destination: '100%' });
+  });
+});
+
+describe('serializeFilter', () => {
+  it('is the inverse of parseFilter', () => {
+    const filter: VehicleFilter = {
+      lines: ['IC*', 'S12'],
+      types: ['rail'],
+      minDelay: 120000,
+      states: ['BOARDING', 'DRIVING'],
+      destination: 'Zürich HB',
+    };
+    expect(serializeFilter(filter)).toBe('line:IC*,S12;type:rail;delay:2;state:BOARDING,DRIVING;dest:Zürich HB');
+    expect(parseFilter(serializeFilter(filter))).toEqual(filter);
+    expect(serializeFilter({})).toBe('');
+  });
+
+  it('escapes the separators inside values', () => {
+    const filter: VehicleFilter = { lines: ['A:1', 'B,2'], destination: 'A;B, 50%' };
+    expect(serializeFilter(filter)).toBe('line:A%3A1,B%2C2;dest:A%3BB%2C 50%25');
+    expect(parseFilter(serializeFilter(filter))).toEqual(filter);
+  });
+});
+
+describe('createFilterPredicate', () => {
+  it('matches everything without criteria', () => {
+    expect(createFilterPredicate({})({})).toBe(true);
+  });
+
+  it('matches line patterns regardless of case and spacing', () => {
+    const predicate = createFilterPredicate({ lines: ['IC*', 's 12'] });
+    expect(predicate({ lineName: 'IC 5' })).toBe(true);
+    expect(predicate({ lineName: 'S12' })).toBe(true);
+    expect(predicate({ lineName: 'S1' })).toBe(false);
+    expect(predicate({ lineName: 'ICE 3' })).toBe(true);
+    expect(predicate({})).toBe(false);
+  });
+
+  it('treats regular expression characters in patterns literally', () => {
+    const predicate = createFilterPredicate({ lines: ['S1.'] });
+    expect(predicate({ lineName: 'S1.' })).toBe(true);
+    expect(predicate({ lineName: 'S12' })).toBe(false);
+  });
+
+  it('requires all criteria to match', () => {
+    const predicate = createFilterPredicate({ types: ['rail'], minDelay: 300000, destination: 'bern' });
+    expect(predicate({ type: 'rail', delay: 300000, destination: 'Bern Wankdorf' })).toBe(true);
+    expect(predicate({ type: 'tram', delay: 300000, destination: 'Bern' })).toBe(false);
+    expect(predicate({ type: 'rail', delay: 240000, destination: 'Bern' })).toBe(false);
+    expect(predicate({ type: 'rail', destination: 'Bern' })).toBe(false);
+    expect(predicate({ type: 'rail', delay: 300000, destination: 'Basel' })).toBe(false);
+  });
+
+  it('counts vehicles without a state as driving', () => {
+    const predicate = createFilterPredicate({ states: ['DRIVING'] });
+    expect(predicate({})).toBe(true);
+    expect(predicate({ state: 'BOARDING' })).toBe(false);
+  });
+});
@@ -0,0 +1,128 @@
+import { normalizeLineName, VEHICLE_STATES } from '../types/geops';
+
+import type { VehicleAttributes, VehicleState } from '../types/geops';
+
+// User-defined vehicle filter; all given criteria must match (empty filter = everything)
+// Applied in the tracker worker, on top of the zoom-driven decluttering in main.ts
+export interface VehicleFilter {
+  lines?: string[]; // line name patterns, '*' matches any characters ("IC*", "S12")
+  types?: string[]; // modes of transport (e.g. 'rail', 'tram')
+  minDelay?: number; // ms
+  states?: VehicleState[];
+  destination?: string; // substring of the destination
+}
+
+// Clause keys of the ?filter= syntax, e.g. "line:IC*,S12;type:rail;delay:5;state:JOURNEY_CANCELLED;dest:Bern"
+// Delays are given in minutes there
+const FILTER_KEYS = {
+  LINES: 'line',
+  TYPES: 'type',
+  MIN_DELAY: 'delay',
+  STATES: 'state',
+  DESTINATION: 'dest',
+};
+
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = normalizeLineName(pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+export function isEmptyFilter(filter: VehicleFilter): boolean {
+  return (
+    !filter.lines?.length &&
+    !filter.types?.length &&
+    filter.minDelay === undefined &&
+    !filter.states?.length &&
+    !filter.destination
+  );
+}
+
+// Build a predicate once per filter change instead of per trajectory
+export function createFilterPredicate(filter: VehicleFilter): (_attributes: VehicleAttributes) => boolean {
+  if (isEmptyFilter(filter)) return () => true;
+
+  const linePatterns = filter.lines?.length ? filter.lines.map(patternToRegExp) : null;
+  const destination = filter.destination?.toLowerCase();
+
+  return (attributes) => {
+    if (linePatterns) {
+      const lineName = attributes.lineName ? normalizeLineName(attributes.lineName) : '';
+      if (!linePatterns.some((pattern) => pattern.test(lineName))) return false;
+    }
+    if (filter.types?.length && (!attributes.type || !filter.types.includes(attributes.type))) return false;
+    if (filter.minDelay !== undefined && (attributes.delay ?? 0) < filter.minDelay) return false;
+    if (filter.states?.length && !filter.states.includes(attributes.state ?? 'DRIVING')) return false;
+    if (destination && !attributes.destination?.toLowerCase().includes(destination)) return false;
+    return true;
+  };
+}
+
+// The separators of the ?filter= syntax (and '%' itself) are percent-encoded inside values,
+// so e.g. a destination "A;B" survives the round trip
+function encodeValue(value: string): string {
+  return value.replace(/[%;:,]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+// Only the sequences encodeValue produces are decoded; any other '%' is kept as typed
+function decodeValue(value: string): string {
+  return value.replace(/%(25|3B|3A|2C)/gi, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => decodeValue(item.trim()))
+    .filter(Boolean);
+}
+
+// Parse the ?filter= syntax; unknown keys and invalid values are ignored
+export function parseFilter(text: string | null | undefined): VehicleFilter {
+  const filter: VehicleFilter = {};
+  if (!text) return filter;
+
+  for (const clause of text.split(';')) {
+    const separator = clause.indexOf(':');
+    if (separator < 0) continue;
+    const key = clause.slice(0, separator).trim().toLowerCase();
+    const value = clause.slice(separator + 1).trim();
+    if (!value) continue;
+
+    switch (key) {
+      case FILTER_KEYS.LINES:
+        filter.lines = parseList(value);
+        break;
+      case FILTER_KEYS.TYPES:
+        filter.types = parseList(value).map((type) => type.toLowerCase());
+        break;
+      case FILTER_KEYS.MIN_DELAY: {
+        const minutes = Number(value);
+        if (Number.isFinite(minutes) && minutes >= 0) filter.minDelay = minutes * 60000;
+        break;
+      }
+      case FILTER_KEYS.STATES:
+        filter.states = parseList(value)
+          .map((state) => state.toUpperCase())
+          .filter((state): state is VehicleState => (VEHICLE_STATES as readonly string[]).includes(state));
+        break;
+      case FILTER_KEYS.DESTINATION:
+        filter.destination = decodeValue(value);
+        break;
+    }
+  }
+
+  return filter;
+}
+
+// Inverse of parseFilter (empty string for an empty filter)
+export function serializeFilter(filter: VehicleFilter): string {
+  const clauses: string[] = [];
+  if (filter.lines?.length) clauses.push(`${FILTER_KEYS.LINES}:${filter.lines.map(encodeValue).join(',')}`);
+  if (filter.types?.length) clauses.push(`${FILTER_KEYS.TYPES}:${filter.types.map(encodeValue).join(',')}`);
+  if (filter.minDelay !== undefined) clauses.push(`${FILTER_KEYS.MIN_DELAY}:${filter.minDelay / 60000}`);
+  if (filter.states?.length) clauses.push(`${FILTER_KEYS.STATES}:${filter.states.join(',')}`);
+  if (filter.destination) clauses.push(`${FILTER_KEYS.DESTINATION}:${encodeValue(filter.destination)}`);
+  return clauses.join(';');
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+
+import { VehicleHistory } from './vehicle-history';
+
+describe('VehicleHistory', () => {
+  it('samples at most one point per sample interval', () => {
+    const history = new VehicleHistory({ sampleInterval: 5000 });
+    expect(history.record('a', { x: 0, y: 0, time: 0 })).toBe(true);
+    expect(history.record('a', { x: 1, y: 0, time: 4999 })).toBe(false);
+    expect(history.record('a', { x: 2, y: 0, time: 5000 })).toBe(true);
+    expect(history.get('a').map((point) => point.x)).toEqual([0, 2]);
+    expect(history.pointCount).toBe(2);
+  });
+
+  it('starts over when the clock jumps back', () => {
+    const history = new VehicleHistory({ sampleInterval: 1000 });
+    history.record('a', { x: 0, y: 0, time: 10000 });
+    history.record('a', { x: 1, y: 0, time: 11000 });
+    expect(history.record('a', { x: 5, y: 0, time: 2000 })).toBe(true);
+    expect(history.get('a')).toEqual([{ x: 5, y: 0, time: 2000 }]);
+    expect(history.pointCount).toBe(1);
+  });
+
+  it('keeps the newest points within the per-vehicle budget', () => {
+    const history = new VehicleHistory({ sampleInterval: 1, maxPointsPerVehicle: 3 });
+    for (let time = 0; time < 5; time++) {
+      history.record('a', { x: time, y: 0, time });
+    }
+    expect(history.get('a').map((point) => point.time)).toEqual([2, 3, 4]);
+    expect(history.pointCount).toBe(3);
+  });
+
+  it('drops points older than the maximum age and forgets empty vehicles', () => {
+    const history = new VehicleHistory({ sampleInterval: 1, maxAge: 1000 });
+    history.record('a', { x: 0, y: 0, time: 0 });
+    history.record('a', { x: 1, y: 0, time: 900 });
+    history.record('b', { x: 0, y: 0, time: 100 });
+
+    history.enforceLimits(1500);
+    expect(history.get('a').map((point) => point.time)).toEqual([900]);
+    expect(history.getAll().has('b')).toBe(false);
+    expect(history.pointCount).toBe(1);
+  });
+
+  it('shortens all histories evenly beyond the total budget', () => {
+    const history = new VehicleHistory({ sampleInterval: 1, maxTotalPoints: 6 });
+    for (let time = 0; time < 6; time++) {
+      history.record('a', { x: 0, y: 0, time });
+      history.record('b', { x: 0, y: 0, time });
+    }
+    expect(history.pointCount).toBe(12);
+
+    history.enforceLimits(6);
+    expect(history.get('a').map((point) => point.time)).toEqual([3, 4, 5]);
+    expect(history.get('b')).toHaveLength(3);
+    expect(history.pointCount).toBe(6);
+  });
+
+  it('keeps the point count in step with deletions', () => {
+    const history = new VehicleHistory({ sampleInterval: 1 });
+    history.record('a', { x: 0, y: 0, time: 0 });
+    history.record('b', { x: 0, y: 0, time: 0 });
+    history.delete('a');
+    expect(history.get('a')).toEqual([]);
+    expect(history.pointCount).toBe(1);
+    history.clear();
+    expect(history.pointCount).toBe(0);
+  });
+});
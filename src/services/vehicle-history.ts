@@ -0,0 +1,126 @@
+// Breadcrumb history: where vehicles actually went, sampled from the interpolated positions
+// Trajectory updates replace the planned path, so detours and unplanned stops are only visible here
+
+// One sampled position
+export interface HistoryPoint {
+  x: number; // EPSG:3857
+  y: number;
+  time: number; // epoch ms (clock time of the sample)
+  delay?: number; // ms at that time
+}
+
+// Memory limits; a point costs roughly 50 bytes
+export interface HistoryLimits {
+  sampleInterval: number; // ms between two points of a vehicle
+  maxAge: number; // ms, older points are dropped
+  maxPointsPerVehicle: number;
+  maxTotalPoints: number; // over all vehicles; histories are shortened evenly beyond this
+}
+
+// Default: 30 minutes at one point per 5 s, at most ~5 MB
+export const DEFAULT_HISTORY_LIMITS: HistoryLimits = {
+  sampleInterval: 5000,
+  maxAge: 1800000,
+  maxPointsPerVehicle: 360,
+  maxTotalPoints: 100000,
+};
+
+export class VehicleHistory {
+  private histories: Map<string, HistoryPoint[]> = new Map();
+  private totalPoints = 0;
+  private limits: HistoryLimits;
+
+  constructor(limits: Partial<HistoryLimits> = {}) {
+    this.limits = { ...DEFAULT_HISTORY_LIMITS, ...limits };
+  }
+
+  getLimits(): HistoryLimits {
+    return { ...this.limits };
+  }
+
+  // Change some limits; existing histories are trimmed on the next enforceLimits()
+  setLimits(limits: Partial<HistoryLimits>) {
+    this.limits = { ...this.limits, ...limits };
+  }
+
+  // Add a point unless the vehicle's last one is younger than the sample interval
+  // Returns whether the point was kept
+  record(vehicleId: string, point: HistoryPoint): boolean {
+    let history = this.histories.get(vehicleId);
+    if (!history) {
+      history = [];
+      this.histories.set(vehicleId, history);
+    }
+
+    const last = history[history.length - 1];
+    if (last) {
+      // The clock jumped back (time control, replay seek): the old trail no longer leads here
+      if (point.time < last.time) {
+        this.totalPoints -= history.length;
+        history.length = 0;
+      } else if (point.time - last.time < this.limits.sampleInterval) {
+        return false;
+      }
+    }
+
+    history.push(point);
+    this.totalPoints++;
+    this.trim(history, this.limits.maxPointsPerVehicle);
+    return true;
+  }
+
+  // Drop points older than maxAge or beyond the per-vehicle budget, and shorten all histories
+  // evenly while over maxTotalPoints
+  enforceLimits(now: number) {
+    const cutoff = now - this.limits.maxAge;
+    for (const [vehicleId, history] of this.histories) {
+      const firstKept = history.findIndex((point) => point.time >= cutoff);
+      const expired = firstKept < 0 ? history.length : firstKept;
+      this.trim(history, Math.min(history.length - expired, this.limits.maxPointsPerVehicle));
+      if (history.length === 0) {
+        this.histories.delete(vehicleId);
+      }
+    }
+
+    if (this.totalPoints > this.limits.maxTotalPoints && this.histories.size > 0) {
+      const perVehicle = Math.max(2, Math.floor(this.limits.maxTotalPoints / this.histories.size));
+      for (const history of this.histories.values()) {
+        this.trim(history, perVehicle);
+      }
+    }
+  }
+
+  // Keep the newest maxLength points
+  private trim(history: HistoryPoint[], maxLength: number) {
+    if (history.length > maxLength) {
+      this.totalPoints -= history.length - maxLength;
+      history.splice(0, history.length - maxLength);
+    }
+  }
+
+  // Points of one vehicle, oldest first (empty if unknown)
+  get(vehicleId: string): readonly HistoryPoint[] {
+    return this.histories.get(vehicleId) ?? [];
+  }
+
+  getAll(): ReadonlyMap<string, readonly HistoryPoint[]> {
+    return this.histories;
+  }
+
+  get pointCount(): number {
+    return this.totalPoints;
+  }
+
+  delete(vehicleId: string) {
+    const history = this.histories.get(vehicleId);
+    if (history) {
+      this.totalPoints -= history.length;
+      this.histories.delete(vehicleId);
+    }
+  }
+
+  clear() {
+    this.histories.clear();
+    this.totalPoints = 0;
+  }
+}
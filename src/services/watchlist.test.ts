@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+
+import { Watchlist } from './watchlist';
+
+const MINUTE = 60000;
+const STORAGE_KEY = 'realtime-geops-watchlist';
+
+// In-memory stand-in for localStorage
+function createStorage(initial: Record<string, string> = {}): Storage {
+  const items = new Map(Object.entries(initial));
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => items.delete(key),
+    setItem: (key, value) => items.set(key, value),
+  };
+}
+
+describe('Watchlist', () => {
+  it('fires the delay rule once and re-arms it when the delay clears', () => {
+    const watchlist = new Watchlist(createStorage());
+    watchlist.add('train', 'sbb_1', { delayMinutes: 5, cancelled: false, disappeared: false });
+
+    const late = { lineName: 'IC 5', destination: 'Bern', delay: 6 * MINUTE };
+    const alerts = watchlist.evaluateTrajectory('sbb_1', late, 0);
+    expect(alerts).toMatchObject([{ rule: 'delay', vehicleId: 'sbb_1', message: 'IC 5 to Bern is 6 min late' }]);
+    expect(watchlist.evaluateTrajectory('sbb_1', { ...late, delay: 8 * MINUTE }, 1)).toEqual([]);
+
+    expect(watchlist.evaluateTrajectory('sbb_1', { ...late, delay: 5 * MINUTE }, 2)).toEqual([]);
+    expect(watchlist.evaluateTrajectory('sbb_1', late, 3)).toHaveLength(1);
+  });
+
+  it('matches line entries regardless of case and surrounding spaces against every vehicle of the line', () => {
+    const watchlist = new Watchlist(createStorage());
+    watchlist.add('line', ' s12 ', { cancelled: true, disappeared: false });
+
+    const cancelled = { lineName: 'S12', state: 'JOURNEY_CANCELLED' as const };
+    expect(watchlist.evaluateTrajectory('a', cancelled, 0)).toMatchObject([{ rule: 'cancelled', vehicleId: 'a' }]);
+    expect(watchlist.evaluateTrajectory('b', cancelled, 0)).toMatchObject([{ rule: 'cancelled', vehicleId: 'b' }]);
+    expect(watchlist.evaluateTrajectory('c', { ...cancelled, lineName: 'S1' }, 0)).toEqual([]);
+  });
+
+  it('matches line names that only differ in spacing', () => {
+    const watchlist = new Watchlist(createStorage());
+    watchlist.add('line', 'IC 1', { cancelled: true, disappeared: false });
+
+    const cancelled = { lineName: 'IC1', state: 'JOURNEY_CANCELLED' as const };
+    expect(watchlist.evaluateTrajectory('a', cancelled, 0)).toMatchObject([{ rule: 'cancelled', vehicleId: 'a' }]);
+  });
+
+  it('only reports a disappearance when the tracker lost the vehicle', () => {
+    const watchlist = new Watchlist(createStorage());
+    watchlist.add('train', 'sbb_1', { delayMinutes: 5, cancelled: false, disappeared: true });
+    const late = { lineName: 'IC 5', delay: 6 * MINUTE };
+
+    expect(watchlist.evaluateTrajectory('sbb_1', late, 0)).toHaveLength(1);
+    // Leaving the view keeps the fired delay rule, so coming back does not repeat it
+    expect(watchlist.evaluateDelete('sbb_1', 'evicted', 1)).toEqual([]);
+    expect(watchlist.evaluateTrajectory('sbb_1', late, 2)).toEqual([]);
+
+    expect(watchlist.evaluateDelete('sbb_1', 'deleted', 3)).toMatchObject([
+      { rule: 'disappeared', message: 'IC 5 ended its journey' },
+    ]);
+    // Not watched any more until the next trajectory
+    expect(watchlist.evaluateDelete('sbb_1', 'missing', 4)).toEqual([]);
+    // The journey was forgotten, so its delay alerts again
+    expect(watchlist.evaluateTrajectory('sbb_1', late, 5)).toHaveLength(1);
+  });
+
+  it('re-arms the rules when an entry is replaced', () => {
+    const watchlist = new Watchlist(createStorage());
+    const rules = { delayMinutes: 1, cancelled: false, disappeared: false };
+    watchlist.add('train', 'sbb_1', rules);
+    expect(watchlist.evaluateTrajectory('sbb_1', { delay: 2 * MINUTE }, 0)).toHaveLength(1);
+
+    watchlist.add('train', 'sbb_1', rules);
+    expect(watchlist.size).toBe(1);
+    expect(watchlist.evaluateTrajectory('sbb_1', { delay: 2 * MINUTE }, 1)).toHaveLength(1);
+  });
+
+  it('persists entries and skips malformed stored ones', () => {
+    const storage = createStorage();
+    const watchlist = new Watchlist(storage);
+    watchlist.add('line', 'ic 1', { delayMinutes: 3, cancelled: true, disappeared: false });
+    watchlist.setNotifications(true);
+    expect(new Watchlist(storage).getEntries()).toEqual(watchlist.getEntries());
+    expect(new Watchlist(storage).getNotifications()).toBe(true);
+
+    const stored = JSON.stringify({
+      entries: [
+        { kind: 'train', value: 'sbb_2', rules: { delayMinutes: -1, cancelled: 'yes' } },
+        { kind: 'station', value: 'Bern', rules: {} },
+        { kind: 'line', value: 42 },
+        null,
+      ],
+    });
+    expect(new Watchlist(createStorage({ [STORAGE_KEY]: stored })).getEntries()).toEqual([
+      {
+        id: 'train:sbb_2',
+        kind: 'train',
+        value: 'sbb_2',
+        rules: { delayMinutes: undefined, cancelled: false, disappeared: false },
+      },
+    ]);
+    expect(new Watchlist(createStorage({ [STORAGE_KEY]: '{broken' })).size).toBe(0);
+  });
+});
@@ -0,0 +1,284 @@
+import { normalizeLineName } from '../types/geops';
+
+import type { DeleteReason, VehicleAttributes } from '../types/geops';
+
+// Watchlist of trains and lines the dispatchers follow, with alert rules
+// Entries persist in localStorage; GeopsApiService evaluates the rules on every trajectory and delete.
+
+// What an entry watches: one journey by train_id, or every vehicle of a line (by line name)
+export type WatchTargetKind = 'train' | 'line';
+
+export type WatchRule = 'delay' | 'cancelled' | 'disappeared';
+
+export interface WatchRules {
+  delayMinutes?: number; // alert once the delay exceeds this many minutes
+  cancelled: boolean; // alert when the journey is cancelled
+  disappeared: boolean; // alert when the tracker stops reporting the vehicle
+}
+
+export interface WatchlistEntry {
+  id: string; // kind and value, see getEntryId
+  kind: WatchTargetKind;
+  value: string;
+  rules: WatchRules;
+}
+
+// Raised once per vehicle and rule; delay and cancellation alerts re-arm when the condition clears
+export interface WatchAlert {
+  entry: WatchlistEntry;
+  rule: WatchRule;
+  vehicleId: string;
+  lineName?: string;
+  destination?: string;
+  delay?: number; // ms
+  time: number; // clock time
+  message: string;
+}
+
+// Watchlist configuration
+const WATCHLIST_CONFIG = {
+  STORAGE_KEY: 'realtime-geops-watchlist',
+  // Removals that mean the tracker lost the vehicle, not that the user looks elsewhere
+  DISAPPEAR_REASONS: ['deleted', 'missing', 'expired'] as DeleteReason[],
+};
+
+const WATCH_TARGET_KINDS: readonly WatchTargetKind[] = ['train', 'line'];
+
+function getEntryId(kind: WatchTargetKind, value: string): string {
+  return `${kind}:${value}`;
+}
+
+// Train ids are matched exactly, line names like the filter does (regardless of case and spacing)
+function normalizeValue(kind: WatchTargetKind, value: string): string {
+  return kind === 'line' ? normalizeLineName(value) : value.trim();
+}
+
+function describeVehicle(vehicleId: string, attributes: VehicleAttributes | undefined): string {
+  const line = attributes?.lineName ?? vehicleId;
+  return attributes?.destination ? `${line} to ${attributes.destination}` : line;
+}
+
+// localStorage, or null where it is unavailable (private mode, storage disabled)
+function getLocalStorage(): Storage | null {
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+// Persisted form of the watchlist
+interface StoredWatchlist {
+  entries: WatchlistEntry[];
+  notifications: boolean;
+}
+
+// Watchlist from storage; malformed entries are skipped
+function parseStoredWatchlist(json: string | null): StoredWatchlist {
+  const stored: StoredWatchlist = { entries: [], notifications: false };
+  if (!json) return stored;
+
+  let parsed: Partial<StoredWatchlist> | null;
+  try {
+    parsed = JSON.parse(json) as Partial<StoredWatchlist> | null;
+  } catch {
+    return stored;
+  }
+  stored.notifications = parsed?.notifications === true;
+  if (!Array.isArray(parsed?.entries)) return stored;
+
+  for (const item of parsed.entries as Partial<WatchlistEntry>[]) {
+    if (!item || !WATCH_TARGET_KINDS.includes(item.kind as WatchTargetKind) || typeof item.value !== 'string') {
+      continue;
+    }
+    const kind = item.kind as WatchTargetKind;
+    const value = normalizeValue(kind, item.value);
+    const delayMinutes = item.rules?.delayMinutes;
+    stored.entries.push({
+      id: getEntryId(kind, value),
+      kind,
+      value,
+      rules: {
+        delayMinutes: typeof delayMinutes === 'number' && delayMinutes >= 0 ? delayMinutes : undefined,
+        cancelled: item.rules?.cancelled === true,
+        disappeared: item.rules?.disappeared === true,
+      },
+    });
+  }
+  return stored;
+}
+
+export class Watchlist {
+  private entries: Map<string, WatchlistEntry> = new Map();
+  private storage: Storage | null;
+  private notifications: boolean;
+  // Rules that already fired, per entry and vehicle ("entryId|vehicleId")
+  private fired: Map<string, Set<WatchRule>> = new Map();
+  // Last attributes of watched vehicles; delete messages carry only the id
+  private watched: Map<string, VehicleAttributes> = new Map();
+
+  constructor(storage: Storage | null = getLocalStorage()) {
+    this.storage = storage;
+
+    const stored = parseStoredWatchlist(storage?.getItem(WATCHLIST_CONFIG.STORAGE_KEY) ?? null);
+    for (const entry of stored.entries) {
+      this.entries.set(entry.id, entry);
+    }
+    this.notifications = stored.notifications;
+  }
+
+  getEntries(): WatchlistEntry[] {
+    return [...this.entries.values()];
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  // Add an entry, or replace the rules of an existing one for the same target
+  add(kind: WatchTargetKind, value: string, rules: WatchRules): WatchlistEntry | null {
+    const normalized = normalizeValue(kind, value);
+    if (!normalized) return null;
+
+    const entry: WatchlistEntry = { id: getEntryId(kind, normalized), kind, value: normalized, rules: { ...rules } };
+    this.entries.set(entry.id, entry);
+    this.resetFired(entry.id);
+    this.save();
+    return entry;
+  }
+
+  remove(id: string) {
+    if (this.entries.delete(id)) {
+      this.resetFired(id);
+      this.save();
+    }
+  }
+
+  // Whether alerts should also be shown as browser notifications (the permission is up to the UI)
+  setNotifications(enabled: boolean) {
+    this.notifications = enabled;
+    this.save();
+  }
+
+  getNotifications(): boolean {
+    return this.notifications;
+  }
+
+  private resetFired(entryId: string) {
+    for (const key of [...this.fired.keys()]) {
+      if (key.startsWith(`${entryId}|`)) {
+        this.fired.delete(key);
+      }
+    }
+  }
+
+  private save() {
+    try {
+      const stored: StoredWatchlist = { entries: this.getEntries(), notifications: this.notifications };
+      this.storage?.setItem(WATCHLIST_CONFIG.STORAGE_KEY, JSON.stringify(stored));
+    } catch {
+      // Quota exceeded or storage disabled: the watchlist still works for this session
+    }
+  }
+
+  private matches(entry: WatchlistEntry, vehicleId: string, attributes: VehicleAttributes | undefined): boolean {
+    if (entry.kind === 'train') return vehicleId === entry.value;
+    return attributes?.lineName !== undefined && normalizeLineName(attributes.lineName) === entry.value;
+  }
+
+  // Evaluate the delay and cancellation rules against a new or updated trajectory
+  evaluateTrajectory(vehicleId: string, attributes: VehicleAttributes, time: number): WatchAlert[] {
+    const alerts: WatchAlert[] = [];
+    let isWatched = false;
+
+    for (const entry of this.entries.values()) {
+      if (!this.matches(entry, vehicleId, attributes)) continue;
+      isWatched = true;
+
+      const key = `${entry.id}|${vehicleId}`;
+      let fired = this.fired.get(key);
+      if (!fired) {
+        fired = new Set();
+        this.fired.set(key, fired);
+      }
+
+      const vehicle = describeVehicle(vehicleId, attributes);
+      const { delayMinutes } = entry.rules;
+      if (delayMinutes !== undefined) {
+        const exceeded = attributes.delay !== undefined && attributes.delay > delayMinutes * 60000;
+        if (exceeded && !fired.has('delay')) {
+          fired.add('delay');
+          const minutes = Math.round((attributes.delay ?? 0) / 60000);
+          alerts.push(
+            this.createAlert(entry, 'delay', vehicleId, attributes, time, `${vehicle} is ${minutes} min late`),
+          );
+        } else if (!exceeded) {
+          fired.delete('delay');
+        }
+      }
+
+      if (entry.rules.cancelled) {
+        const cancelled = attributes.state === 'JOURNEY_CANCELLED';
+        if (cancelled && !fired.has('cancelled')) {
+          fired.add('cancelled');
+          alerts.push(this.createAlert(entry, 'cancelled', vehicleId, attributes, time, `${vehicle} is cancelled`));
+        } else if (!cancelled) {
+          fired.delete('cancelled');
+        }
+      }
+    }
+
+    if (isWatched) {
+      this.watched.set(vehicleId, attributes);
+    } else {
+      this.watched.delete(vehicleId);
+    }
+    return alerts;
+  }
+
+  // Evaluate the disappearance rule when a vehicle is removed from the store
+  evaluateDelete(vehicleId: string, reason: DeleteReason, time: number): WatchAlert[] {
+    const attributes = this.watched.get(vehicleId);
+    if (!attributes) return [];
+    this.watched.delete(vehicleId);
+
+    // A vehicle that only left the view keeps its fired rules, so panning back does not repeat the alerts
+    const disappeared = WATCHLIST_CONFIG.DISAPPEAR_REASONS.includes(reason);
+    const alerts: WatchAlert[] = [];
+    for (const entry of this.entries.values()) {
+      if (!this.matches(entry, vehicleId, attributes)) continue;
+      if (disappeared || reason === 'cleared') {
+        this.fired.delete(`${entry.id}|${vehicleId}`);
+      }
+
+      if (entry.rules.disappeared && disappeared) {
+        const message =
+          reason === 'deleted'
+            ? `${describeVehicle(vehicleId, attributes)} ended its journey`
+            : `${describeVehicle(vehicleId, attributes)} is no longer reported`;
+        alerts.push(this.createAlert(entry, 'disappeared', vehicleId, attributes, time, message));
+      }
+    }
+    return alerts;
+  }
+
+  private createAlert(
+    entry: WatchlistEntry,
+    rule: WatchRule,
+    vehicleId: string,
+    attributes: VehicleAttributes,
+    time: number,
+    message: string,
+  ): WatchAlert {
+    return {
+      entry,
+      rule,
+      vehicleId,
+      lineName: attributes.lineName,
+      destination: attributes.destination,
+      delay: attributes.delay,
+      time,
+      message,
+    };
+  }
+}
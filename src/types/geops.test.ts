@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+
+import { getBBox, getTenantProfile, TENANT_PROFILES } from './geops';
+
+describe('getBBox', () => {
+  it("falls back to the selected tenant's bbox", () => {
+    const urlParams = new URLSearchParams('tenant=rvf');
+    expect(getTenantProfile(urlParams)).toBe(TENANT_PROFILES.rvf);
+    expect(getBBox(urlParams)).toEqual(TENANT_PROFILES.rvf.bbox);
+    expect(getBBox(urlParams)).not.toEqual(TENANT_PROFILES.sbb.bbox);
+  });
+
+  it('prefers ?bbox= over the tenant bbox', () => {
+    expect(getBBox(new URLSearchParams('tenant=rvf&bbox=1,2,3,4'))).toEqual({ left: 1, bottom: 2, right: 3, top: 4 });
+  });
+});
@@ -1,3 +1,6 @@
+import { CABLEWAY_ICON, COACH_ICON, FUNICULAR_ICON, GONDOLA_ICON, METRO_ICON, SHIP_ICON } from '../icons/mode-icons';
+import { SBB_BUS_ICON, SBB_TRAIN_ICON, SBB_TRAM_ICON } from '../icons/sbb-icons';
+
 // GeoJSON types for geOps API responses
 
 export interface GeoJSONLineString {
@@ -28,15 +31,146 @@ export interface TrajectoryFeature {
   properties: TrajectoryProperties;
 }
 
-// Vehicle state from realtime API
-export type VehicleState = 'DRIVING' | 'BOARDING' | 'JOURNEY_CANCELLED';
+// Station of a stop sequence as sent on the stopsequence_<train_id> channel
+// Times are epoch ms, delays ms; null where not applicable (e.g. no arrival at the origin)
+export interface StopSequenceStation {
+  stationId?: string; // UIC number
+  stationName: string;
+  coordinate?: [number, number]; // EPSG:3857
+  platform?: string | null;
+  aimedArrivalTime?: number | null;
+  arrivalTime?: number | null;
+  arrivalDelay?: number | null;
+  aimedDepartureTime?: number | null;
+  departureTime?: number | null;
+  departureDelay?: number | null;
+  cancelled?: boolean;
+}
 
-// Simplified vehicle representation for our application
-export interface Vehicle {
+// Content item of a stopsequence_<train_id> message (one per journey)
+export interface StopSequence {
+  id?: string;
+  shortName?: string; // line name
+  color?: string;
+  type?: string;
+  destination?: string;
+  stations: StopSequenceStation[];
+}
+
+// Stop of a vehicle's journey (times epoch ms, delays ms)
+export interface JourneyStop {
+  stationId?: string;
+  name: string;
+  coordinate?: [number, number];
+  platform?: string;
+  scheduledArrival?: number;
+  realtimeArrival?: number;
+  arrivalDelay?: number;
+  scheduledDeparture?: number;
+  realtimeDeparture?: number;
+  departureDelay?: number;
+  cancelled: boolean;
+}
+
+// Journey details of one vehicle, built from its stop sequence
+export interface Journey {
+  trainId: string;
+  lineName?: string;
+  lineColor?: string;
+  type?: string;
+  destination?: string;
+  stops: JourneyStop[];
+  receivedAt: number; // when the stop sequence arrived
+}
+
+// Departure as sent on the timetable_<uic> channel
+export interface TimetableDeparture {
+  call_id?: string;
+  train_id: string;
+  line?: {
+    id?: number;
+    name: string;
+    color?: string;
+  } | null;
+  to?: string[]; // destination(s)
+  platform?: string | null;
+  time: number; // realtime departure, epoch ms
+  ris_aimed_time?: number | null; // scheduled departure, epoch ms
+  state?: string | null;
+}
+
+// Entry of a station departure board
+export interface Departure {
+  id: string; // call_id, or train_id when the call has none
+  trainId: string;
+  lineName?: string;
+  lineColor?: string;
+  destination?: string;
+  platform?: string;
+  scheduledTime?: number;
+  time: number; // realtime departure
+  delay?: number; // ms, when the scheduled time is known
+  cancelled: boolean;
+}
+
+// Item on the newsticker channel (disruptions and other operator news)
+export interface NewstickerMessage {
+  id: string | number;
+  title: string;
+  content?: string | null; // plain text or HTML
+  lines?: string[] | null; // names of affected lines
+  start?: string | number | null; // validity, ISO date or epoch ms
+  end?: string | number | null;
+}
+
+// Disruption or news message shown in the disruption panel
+export interface Disruption {
   id: string;
-  x: number; // coordinate in EPSG:3857
-  y: number;
-  rotation: number; // in radians
+  title: string;
+  text: string; // content without markup
+  lines: string[]; // affected line names (empty = network-wide)
+  start?: number; // epoch ms
+  end?: number;
+}
+
+// Raw message envelope sent by the tracker WebSocket
+export interface WebSocketMessage {
+  source: string; // 'buffer' | 'trajectory' | 'deleted_vehicles' | 'stopsequence_<train_id>' | 'timetable_<uic>' | 'newsticker' | ...
+  timestamp: number;
+  content: unknown;
+  client_reference: string | null;
+}
+
+// Trajectories fetched over the REST API, handed to the trajectory store as a regular frame
+// replace: the snapshot is complete for its bbox, so vehicles inside it that are missing are gone
+export interface TrajectorySnapshot {
+  bbox: BBox;
+  replace: boolean;
+  features: unknown[]; // validated one by one like trajectory messages
+}
+
+// Tracker connection lifecycle
+// - connecting: first connection attempt in progress
+// - open: connected and subscribed
+// - reconnecting: connection lost, retrying with backoff
+// - failed: gave up (e.g. rejected API key), no further retries
+export type ConnectionState = 'connecting' | 'open' | 'reconnecting' | 'failed';
+
+// Vehicle states known to this app (message validation drops any other state with a warning)
+export const VEHICLE_STATES = ['DRIVING', 'BOARDING', 'JOURNEY_CANCELLED'] as const;
+
+// Vehicle state from realtime API
+export type VehicleState = (typeof VEHICLE_STATES)[number];
+
+// Display names of the vehicle states
+export const VEHICLE_STATE_LABELS: Record<VehicleState, string> = {
+  DRIVING: 'Driving',
+  BOARDING: 'At a stop',
+  JOURNEY_CANCELLED: 'Cancelled',
+};
+
+// Display attributes of a vehicle (everything except its interpolated position)
+export interface VehicleAttributes {
   lineName?: string;
   lineColor?: string;
   destination?: string;
@@ -45,6 +179,145 @@ export interface Vehicle {
   state?: VehicleState;
 }
 
+// Simplified vehicle representation for our application
+export interface Vehicle extends VehicleAttributes {
+  id: string;
+  x: number; // coordinate in EPSG:3857
+  y: number;
+  rotation: number; // in radians
+  stale: boolean; // past its last time interval and beyond dead-reckoning (see StalenessPolicy)
+}
+
+// Why a vehicle was removed from the store
+// - deleted: deleted_vehicles message of the tracker (journey ended)
+// - missing: not in a complete snapshot of its area, or not refreshed after a reconnect
+// - expired: no fresh trajectory within the removal time of its staleness policy
+// - evicted: left the view and every pinned region
+// - filtered: no longer matches the mode, long-distance or user filter
+// - cleared: the store was reset (transport switch)
+export type DeleteReason = 'deleted' | 'missing' | 'expired' | 'evicted' | 'filtered' | 'cleared';
+
+// Delay categories of the vehicle icons and the punctuality statistics
+export type DelayCategory = 'on-time' | 'delayed' | 'very-delayed';
+
+export const DELAY_CATEGORY_THRESHOLDS = {
+  DELAYED: 60000, // 1 min
+  VERY_DELAYED: 300000, // 5 min
+};
+
+export function getDelayCategory(delay: number): DelayCategory {
+  if (delay < DELAY_CATEGORY_THRESHOLDS.DELAYED) return 'on-time';
+  if (delay < DELAY_CATEGORY_THRESHOLDS.VERY_DELAYED) return 'delayed';
+  return 'very-delayed';
+}
+
+// Modes of transport (mots) served by the geOps tracker
+export const MOTS = ['rail', 'tram', 'bus', 'subway', 'coach', 'ferry', 'gondola', 'cablecar', 'funicular'] as const;
+
+export type Mot = (typeof MOTS)[number];
+
+// Vehicle counters in the status panel; several mots share a bucket
+export type CountBucket = 'rail' | 'tram' | 'bus' | 'ferry' | 'cable';
+
+export const COUNT_BUCKETS: Record<CountBucket, { label: string; icon: string }> = {
+  rail: { label: 'Trains', icon: SBB_TRAIN_ICON },
+  tram: { label: 'Trams', icon: SBB_TRAM_ICON },
+  bus: { label: 'Buses', icon: SBB_BUS_ICON },
+  ferry: { label: 'Ferries', icon: SHIP_ICON },
+  cable: { label: 'Cable cars and funiculars', icon: GONDOLA_ICON },
+};
+
+// Display settings of a mode of transport
+export interface TransportMode {
+  label: string; // singular display name
+  icon: string; // SVG markup
+  baseIconSize: number; // map icon size in px at scale factor 1
+  trajectoryColor: [number, number, number, number]; // RGBA
+  trajectoryWidth: number; // px
+  countBucket: CountBucket;
+}
+
+// Mode registry, drives the BBOX subscription, the counters, icon sizes and trajectory colors
+export const TRANSPORT_MODES: Record<Mot, TransportMode> = {
+  rail: {
+    label: 'Train',
+    icon: SBB_TRAIN_ICON,
+    baseIconSize: 38,
+    trajectoryColor: [59, 130, 246, 0.6], // blue
+    trajectoryWidth: 3,
+    countBucket: 'rail',
+  },
+  tram: {
+    label: 'Tram',
+    icon: SBB_TRAM_ICON,
+    baseIconSize: 19,
+    trajectoryColor: [168, 85, 247, 0.6], // purple
+    trajectoryWidth: 2,
+    countBucket: 'tram',
+  },
+  bus: {
+    label: 'Bus',
+    icon: SBB_BUS_ICON,
+    baseIconSize: 19,
+    trajectoryColor: [34, 197, 94, 0.6], // green
+    trajectoryWidth: 2,
+    countBucket: 'bus',
+  },
+  subway: {
+    label: 'Metro',
+    icon: METRO_ICON,
+    baseIconSize: 30,
+    trajectoryColor: [99, 102, 241, 0.6], // indigo
+    trajectoryWidth: 3,
+    countBucket: 'rail',
+  },
+  coach: {
+    label: 'Coach',
+    icon: COACH_ICON,
+    baseIconSize: 24,
+    trajectoryColor: [20, 184, 166, 0.6], // teal
+    trajectoryWidth: 2,
+    countBucket: 'bus',
+  },
+  ferry: {
+    label: 'Ferry',
+    icon: SHIP_ICON,
+    baseIconSize: 30,
+    trajectoryColor: [6, 182, 212, 0.6], // cyan
+    trajectoryWidth: 2,
+    countBucket: 'ferry',
+  },
+  gondola: {
+    label: 'Gondola',
+    icon: GONDOLA_ICON,
+    baseIconSize: 19,
+    trajectoryColor: [249, 115, 22, 0.6], // orange
+    trajectoryWidth: 2,
+    countBucket: 'cable',
+  },
+  cablecar: {
+    label: 'Cable car',
+    icon: CABLEWAY_ICON,
+    baseIconSize: 24,
+    trajectoryColor: [234, 88, 12, 0.6], // dark orange
+    trajectoryWidth: 2,
+    countBucket: 'cable',
+  },
+  funicular: {
+    label: 'Funicular',
+    icon: FUNICULAR_ICON,
+    baseIconSize: 19,
+    trajectoryColor: [202, 138, 4, 0.6], // amber
+    trajectoryWidth: 2,
+    countBucket: 'cable',
+  },
+};
+
+// Registry entry of a vehicle type, undefined for types geOps does not document
+export function getTransportMode(type: string | undefined): TransportMode | undefined {
+  return type && type in TRANSPORT_MODES ? TRANSPORT_MODES[type as Mot] : undefined;
+}
+
 // BBox type
 export interface BBox {
   left: number;
@@ -53,15 +326,109 @@ export interface BBox {
   top: number;
 }
 
-// Default bounding box (Switzerland in EPSG:3857)
-// Approximate bounds: 5.9°E to 10.5°E, 45.8°N to 47.8°N
-const DEFAULT_BBOX: BBox = {
-  left: 657000,
-  bottom: 5751000,
-  right: 1168000,
-  top: 6076000,
+// Subscription of a tracker BBOX command (mots is empty when the command names none)
+export interface BBoxCommand {
+  bbox: BBox;
+  zoomLevel: number;
+  mots: string[];
+}
+
+// Parse "BBOX left bottom right top zoom [mots=a,b]" (already split at spaces), for transports
+// that answer the commands themselves
+export function parseBBoxCommand(parts: string[]): BBoxCommand | null {
+  const [left, bottom, right, top, zoomLevel] = parts.slice(1, 6).map(Number);
+  if ([left, bottom, right, top, zoomLevel].some((value) => !Number.isFinite(value))) return null;
+
+  const motsPart = parts.find((part) => part.startsWith('mots='));
+  const mots = motsPart ? motsPart.slice('mots='.length).split(',').filter(Boolean) : [];
+
+  return { bbox: { left, bottom, right, top }, zoomLevel, mots };
+}
+
+// Initial camera of a tenant (position in EPSG:3857)
+export interface CameraPosition {
+  x: number;
+  y: number;
+  z: number; // meters
+  heading: number; // degrees
+  tilt: number; // degrees
+}
+
+// Deployment settings of one geOps realtime tenant / operator
+export interface TenantProfile {
+  title: string; // branding: page title and status panel
+  tenant: string; // tenant parameter of the tracker WebSocket
+  bbox: BBox; // default bbox (EPSG:3857), overridden by ?bbox= / VITE_BBOX
+  mots: Mot[]; // modes of transport subscribed at the detailed zoom level
+  longDistancePrefixes: string[]; // rail line name prefixes classified as long-distance
+  camera: CameraPosition;
+}
+
+// Named tenant profiles, selected with ?tenant= or VITE_GEOPS_TENANT
+export const TENANT_PROFILES: Record<string, TenantProfile> = {
+  // Switzerland, camera over Zurich
+  // Approximate bounds: 5.9°E to 10.5°E, 45.8°N to 47.8°N
+  sbb: {
+    title: 'Switzerland',
+    tenant: 'sbb',
+    bbox: { left: 657000, bottom: 5751000, right: 1168000, top: 6076000 },
+    mots: [...MOTS],
+    longDistancePrefixes: ['IC', 'ICE', 'EC', 'TGV', 'RJX', 'NJ', 'EN', 'IR'],
+    camera: {
+      x: 926334.160695936,
+      y: 5953494.012044153,
+      z: 3584.6630774475634,
+      heading: 201.8507645974617,
+      tilt: 37.17328109689199,
+    },
+  },
+  // Lombardy, camera over Milan
+  // Approximate bounds: 8.5°E to 11.0°E, 44.7°N to 46.6°N
+  trenord: {
+    title: 'Lombardy',
+    tenant: 'trenord',
+    bbox: { left: 946000, bottom: 5574000, right: 1225000, top: 5877000 },
+    mots: ['rail', 'bus'],
+    longDistancePrefixes: ['FR', 'FA', 'FB', 'EC', 'IC', 'RJX', 'TGV'],
+    camera: { x: 1023026, y: 5678000, z: 6000, heading: 0, tilt: 45 },
+  },
+  // Freiburg im Breisgau region
+  // Approximate bounds: 7.5°E to 8.4°E, 47.6°N to 48.4°N
+  rvf: {
+    title: 'Freiburg region',
+    tenant: 'rvf',
+    bbox: { left: 835000, bottom: 6040000, right: 935000, top: 6174000 },
+    mots: ['rail', 'tram', 'bus'],
+    longDistancePrefixes: ['ICE', 'IC', 'EC', 'TGV', 'NJ', 'FLX'],
+    camera: { x: 872745, y: 6090000, z: 4000, heading: 0, tilt: 45 },
+  },
 };
 
+const DEFAULT_TENANT = 'sbb';
+
+function parseTenant(value: string | null | undefined): TenantProfile | null {
+  const id = value?.toLowerCase();
+  return id && Object.prototype.hasOwnProperty.call(TENANT_PROFILES, id) ? TENANT_PROFILES[id] : null;
+}
+
+// Query string of the page; globalThis.location so this module can also be loaded in the tracker worker,
+// and empty where there is no location at all (unit tests)
+function getUrlParams(): URLSearchParams {
+  return new URLSearchParams(globalThis.location?.search);
+}
+
+// Get tenant profile from query string or env var, fallback to sbb
+export function getTenantProfile(urlParams: URLSearchParams = getUrlParams()): TenantProfile {
+  return (
+    parseTenant(urlParams.get('tenant')) ||
+    parseTenant(import.meta.env.VITE_GEOPS_TENANT) ||
+    TENANT_PROFILES[DEFAULT_TENANT]
+  );
+}
+
+// Resolved once; the worker does not see the page URL and gets its settings from GeopsApiService
+const TENANT = getTenantProfile();
+
 // Parse bbox from string format "left,bottom,right,top"
 function parseBBox(bboxString: string | null | undefined): BBox | null {
   if (!bboxString) return null;
@@ -75,16 +442,36 @@ function parseBBox(bboxString: string | null | undefined): BBox | null {
   };
 }
 
-// Get bbox from query string or env var, fallback to default
-function getBBox(): BBox {
-  const urlParams = new URLSearchParams(window.location.search);
-  const queryBBox = parseBBox(urlParams.get('bbox'));
-  if (queryBBox) return queryBBox;
+// Get bbox from query string or env var, fallback to the tenant's bbox
+export function getBBox(
+  urlParams: URLSearchParams = getUrlParams(),
+  tenant: TenantProfile = getTenantProfile(urlParams),
+): BBox {
+  return parseBBox(urlParams.get('bbox')) || parseBBox(import.meta.env.VITE_BBOX) || tenant.bbox;
+}
+
+// Transport used to talk to the tracker
+// - websocket: live geOps tracker WebSocket (requires API key)
+// - polling: REST API polled periodically, for networks that block WebSockets (requires API key)
+// - mock: local synthetic tracker, no key or network needed
+export type TransportKind = 'websocket' | 'polling' | 'mock';
 
-  const envBBox = parseBBox(import.meta.env.VITE_BBOX);
-  if (envBBox) return envBBox;
+const TRANSPORT_KINDS: readonly TransportKind[] = ['websocket', 'polling', 'mock'];
 
-  return DEFAULT_BBOX;
+function parseTransportKind(value: string | null | undefined): TransportKind | null {
+  if (!value) return null;
+  const kind = value.toLowerCase() as TransportKind;
+  return TRANSPORT_KINDS.includes(kind) ? kind : null;
+}
+
+// Get transport from query string or env var, fallback to live WebSocket
+function getTransportKind(): TransportKind {
+  const urlParams = getUrlParams();
+  return (
+    parseTransportKind(urlParams.get('transport')) ||
+    parseTransportKind(import.meta.env.VITE_GEOPS_TRANSPORT) ||
+    'websocket'
+  );
 }
 
 // API config
@@ -92,15 +479,23 @@ export const GEOPS_CONFIG = {
   API_KEY: import.meta.env.VITE_GEOPS_API_KEY || '',
   REST_BASE_URL: 'https://api.geops.io/tracker/v1',
   WEBSOCKET_URL: 'wss://api.geops.io/tracker-ws/v1/ws',
-  BBOX: getBBox(),
+  BBOX: getBBox(getUrlParams(), TENANT),
+  TRANSPORT: getTransportKind(),
+  TENANT,
 };
 
-// Long-distance train prefixes (single source of truth)
-export const LONG_DISTANCE_PREFIXES = ['IC', 'ICE', 'EC', 'TGV', 'RJX', 'NJ', 'EN', 'IR'] as const;
+// Compare line names regardless of case and spacing ("IC 1" = "ic1")
+export function normalizeLineName(lineName: string): string {
+  return lineName.replace(/\s+/g, '').toUpperCase();
+}
 
 // Utility to check if a line name corresponds to a long-distance train
-export function isLongDistanceTrain(lineName: string | undefined): boolean {
+// Prefixes default to the tenant's classification (see TenantProfile.longDistancePrefixes)
+export function isLongDistanceTrain(
+  lineName: string | undefined,
+  prefixes: readonly string[] = TENANT.longDistancePrefixes,
+): boolean {
   if (!lineName) return false;
   const upperName = lineName.toUpperCase();
-  return LONG_DISTANCE_PREFIXES.some((prefix) => upperName.startsWith(prefix));
+  return prefixes.some((prefix) => upperName.startsWith(prefix));
 }
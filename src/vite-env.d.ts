@@ -6,6 +6,8 @@ interface ImportMetaEnv {
   readonly VITE_WEBSCENE_ID?: string;
   readonly VITE_PORTAL_URL?: string;
   readonly VITE_BBOX?: string; // Format: "left,bottom,right,top" in EPSG:3857
+  readonly VITE_GEOPS_TRANSPORT?: string; // 'websocket' (default), 'polling' or 'mock'
+  readonly VITE_GEOPS_TENANT?: string; // tenant profile id, see TENANT_PROFILES ('sbb' by default)
 }
 
 interface ImportMeta {
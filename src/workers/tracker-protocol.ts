@@ -0,0 +1,37 @@
+import type { MessageStats } from '../services/message-validation';
+import type { StalenessPolicy } from '../services/trajectory-store';
+import type { VehicleFilter } from '../services/vehicle-filter';
+import type { BBox, DeleteReason, Departure, Disruption, Journey, VehicleAttributes } from '../types/geops';
+
+// Messages between GeopsApiService (main thread) and the tracker worker
+
+// Main thread -> worker
+export type TrackerWorkerRequest =
+  | { type: 'frame'; data: string } // raw tracker frame, parsed in the worker
+  | { type: 'tick'; now: number; dataTime: number; includeStats: boolean } // request interpolated positions
+  | { type: 'transport-filter'; mots: string[] }
+  | { type: 'long-distance-only'; enabled: boolean }
+  | { type: 'long-distance-prefixes'; prefixes: string[] }
+  | { type: 'vehicle-filter'; filter: VehicleFilter }
+  | { type: 'staleness-policy'; vehicleType: string; policy: StalenessPolicy }
+  | { type: 'evict-outside'; bboxes: BBox[] } // keep vehicles inside any of the boxes
+  | { type: 'start-generation'; generation: number }
+  | { type: 'drop-stale'; generation: number }
+  | { type: 'clear' };
+
+// Worker -> main thread
+export type TrackerWorkerResponse =
+  | {
+      type: 'trajectory';
+      slot: number;
+      vehicleId: string;
+      coords: [number, number][];
+      attributes: VehicleAttributes;
+    }
+  | { type: 'delete'; slot: number; vehicleId: string; reason: DeleteReason }
+  | { type: 'journey'; journey: Journey }
+  | { type: 'departures'; stationId: string; departures: Departure[] }
+  | { type: 'disruptions'; disruptions: Disruption[] }
+  // Transferable batch, see PositionBatch in services/trajectory-store.ts
+  | { type: 'positions'; now: number; slots: Int32Array; positions: Float64Array }
+  | { type: 'stats'; stats: MessageStats };
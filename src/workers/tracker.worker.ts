@@ -0,0 +1,80 @@
+import { TrajectoryStore } from '../services/trajectory-store';
+
+import type { TrackerWorkerRequest, TrackerWorkerResponse } from './tracker-protocol';
+
+// Tracker worker: JSON parsing, validation, trajectory storage and interpolation run
+// here so large buffer messages do not compete with the SceneView render loop
+
+// Dedicated worker scope (tsconfig only ships DOM typings)
+interface TrackerWorkerScope {
+  onmessage: ((event: MessageEvent<TrackerWorkerRequest>) => void) | null;
+  postMessage(message: TrackerWorkerResponse, transfer?: Transferable[]): void;
+}
+
+const scope = self as unknown as TrackerWorkerScope;
+const store = new TrajectoryStore();
+
+store.on('trajectory', (slot, vehicleId, coords, attributes) => {
+  scope.postMessage({ type: 'trajectory', slot, vehicleId, coords, attributes });
+});
+
+store.on('delete', (slot, vehicleId, reason) => {
+  scope.postMessage({ type: 'delete', slot, vehicleId, reason });
+});
+
+store.on('journey', (journey) => {
+  scope.postMessage({ type: 'journey', journey });
+});
+
+store.on('departures', (stationId, departures) => {
+  scope.postMessage({ type: 'departures', stationId, departures });
+});
+
+store.on('disruptions', (disruptions) => {
+  scope.postMessage({ type: 'disruptions', disruptions });
+});
+
+scope.onmessage = (event) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'frame':
+      store.handleFrame(request.data);
+      break;
+    case 'tick': {
+      const { slots, positions } = store.buildPositions(request.now, request.dataTime);
+      scope.postMessage({ type: 'positions', now: request.now, slots, positions }, [slots.buffer, positions.buffer]);
+      if (request.includeStats) {
+        scope.postMessage({ type: 'stats', stats: store.getMessageStats() });
+      }
+      break;
+    }
+    case 'transport-filter':
+      store.setTransportFilter(request.mots);
+      break;
+    case 'long-distance-only':
+      store.setLongDistanceOnly(request.enabled);
+      break;
+    case 'long-distance-prefixes':
+      store.setLongDistancePrefixes(request.prefixes);
+      break;
+    case 'vehicle-filter':
+      store.setFilter(request.filter);
+      break;
+    case 'staleness-policy':
+      store.setStalenessPolicy(request.vehicleType, request.policy);
+      break;
+    case 'evict-outside':
+      store.evictOutside(request.bboxes);
+      break;
+    case 'start-generation':
+      store.startGeneration(request.generation);
+      break;
+    case 'drop-stale':
+      store.dropStaleGenerations(request.generation);
+      break;
+    case 'clear':
+      store.clear();
+      break;
+  }
+};